@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { AppController, BallScene } from "./app_controller.js";
+import { FakePlatform, FakeWindow } from "./fake_platform.js";
+import { HitCircle } from "./hit_test.js";
+import { PlatformScreen } from "./platform.js";
+
+// Balls launch at once and dock when `finishDocking` is called.
+class FakeScene implements BallScene {
+  mouseCatcherCircle: HitCircle | undefined;
+  paused = true;
+  screenRects: CGRect[] = [];
+  clickWindowRect?: CGRect;
+  ballCount = 0;
+  launches: CGRect[] = [];
+  docking: (() => void)[] = [];
+
+  launch(rect: CGRect, _screen: PlatformScreen) {
+    this.launches.push(rect);
+    this.ballCount++;
+  }
+
+  dock(_rect: CGRect, onComplete: () => void) {
+    this.docking.push(onComplete);
+  }
+
+  finishDocking() {
+    const callbacks = this.docking;
+    this.docking = [];
+    this.ballCount = 0;
+    for (const callback of callbacks) callback();
+  }
+
+  nudge(_change: CGVector) {}
+
+  hop(_speed: number) {}
+}
+
+const frame = { origin: { x: 0, y: 0 }, size: { width: 1440, height: 900 } };
+
+describe("AppController", () => {
+  let platform: FakePlatform;
+  let scene: FakeScene;
+  let ballWindow: FakeWindow;
+  let clickWindow: FakeWindow;
+  let controller: AppController;
+
+  beforeEach(() => {
+    platform = new FakePlatform();
+    platform.addScreen(frame, {
+      origin: { x: 0, y: 79 },
+      size: { width: 1440, height: 796 },
+    });
+    platform.mouse.location = { x: 700, y: 30 };
+
+    scene = new FakeScene();
+    ballWindow = platform.createWindow(frame);
+    clickWindow = platform.createWindow(frame);
+    controller = new AppController(platform, scene, ballWindow, clickWindow);
+  });
+
+  it("launches from the dock icon when reopened while hidden", () => {
+    controller.handleReopen();
+
+    assert.equal(scene.launches.length, 1);
+    assert.ok(controller.ballVisible);
+    assert.ok(ballWindow.isVisible);
+    assert.ok(clickWindow.isVisible);
+    assert.equal(scene.paused, false);
+  });
+
+  it("docks when reopened while visible", () => {
+    controller.handleReopen();
+    controller.handleReopen();
+    assert.equal(scene.docking.length, 1);
+    assert.ok(controller.ballVisible);
+
+    scene.finishDocking();
+    assert.equal(controller.ballVisible, false);
+    assert.equal(ballWindow.isVisible, false);
+    assert.equal(scene.paused, true);
+  });
+
+  it("launches another ball when reopened with option held", () => {
+    controller.handleReopen();
+    platform.keyboard.modifiers.option = true;
+    controller.handleReopen();
+
+    assert.equal(scene.launches.length, 2);
+    assert.equal(scene.docking.length, 0);
+  });
+
+  it("toggles the dock tile with the ball", () => {
+    assert.equal(platform.dockTile.content, "ball");
+
+    controller.performKeyAction("toggle", { nudge: 100, hop: 500 });
+    assert.equal(platform.dockTile.content, "putBack");
+
+    controller.performKeyAction("toggle", { nudge: 100, hop: 500 });
+    scene.finishDocking();
+    assert.equal(platform.dockTile.content, "ball");
+  });
+
+  it("fits the click window to the ball", () => {
+    scene.mouseCatcherCircle = { center: { x: 300, y: 200 }, radius: 50 };
+    controller.updateClickWindow();
+    assert.equal(clickWindow.frameChanges.length, 0);
+
+    controller.launch();
+    const expected = {
+      origin: { x: 250, y: 150 },
+      size: { width: 100, height: 100 },
+    };
+    assert.deepEqual(clickWindow.frame, expected);
+    assert.deepEqual(scene.clickWindowRect, expected);
+  });
+
+  it("stays visible when a ball launches while the others dock", () => {
+    controller.launch();
+    controller.dock();
+
+    // Launched before the dock finished, and still out after it.
+    controller.launch();
+    scene.ballCount = 1;
+    scene.docking[0]();
+    assert.ok(controller.ballVisible);
+    assert.equal(platform.dockTile.content, "putBack");
+  });
+});
@@ -0,0 +1,183 @@
+import { Config } from "./config.js";
+import { DockGeometry } from "./dock_geometry.js";
+import { KeyAction } from "./keymap.js";
+import { Platform, PlatformScreen, PlatformWindow } from "./platform.js";
+import { circleBounds, HitCircle } from "./hit_test.js";
+import { constrainRect, pointInRect } from "./util.js";
+import { offsetRect, unionRect } from "./world_geometry.js";
+
+export interface BallScene {
+  // The ball under (or nearest) the pointer, in screen coordinates.
+  readonly mouseCatcherCircle: HitCircle | undefined;
+  paused: boolean;
+  // Frames of every screen, in scene coordinates.
+  screenRects: CGRect[];
+  // Where the click window is, in screen coordinates.
+  clickWindowRect?: CGRect;
+  readonly ballCount: number;
+  launch(rect: CGRect, screen: PlatformScreen): void;
+  dock(rect: CGRect, onComplete: () => void): void;
+  nudge(change: CGVector): void;
+  hop(speed: number): void;
+}
+
+export class AppController {
+  constructor(
+    public platform: Platform,
+    public scene: BallScene,
+    public ballWindow: PlatformWindow,
+    public clickWindow: PlatformWindow
+  ) {}
+
+  _ballVisible = false;
+
+  get ballVisible() {
+    return this._ballVisible;
+  }
+
+  set ballVisible(value) {
+    if (value === this.ballVisible) {
+      return;
+    }
+
+    this._ballVisible = value;
+
+    this.ballWindow.isVisible = value;
+    this.scene.paused = !value;
+
+    this.platform.dockTile.content = value ? "putBack" : "ball";
+
+    this.clickWindow.isVisible = value;
+    if (value) {
+      this.updateClickWindow();
+    }
+  }
+
+  // Fits the click window to the ball's circle exactly. Clicks outside the
+  // circle but inside the window fall through to the apps underneath, see
+  // `MouseCatcherView`.
+  updateClickWindow() {
+    const circle = this.scene.mouseCatcherCircle;
+    if (!this.ballVisible || !circle) return;
+
+    const frame = circleBounds(circle);
+    this.clickWindow.setFrame(frame);
+    this.scene.clickWindowRect = frame;
+  }
+
+  // The ball window covers every screen at once so the ball can roam between
+  // them; the walls are rebuilt to follow the outline of the screens.
+  updateBallWindowSize() {
+    const frames = this.platform.screens.all.map((screen) => screen.frame);
+    if (frames.length === 0) {
+      return;
+    }
+
+    const bounds = unionRect(frames);
+    this.ballWindow.setFrame(bounds, true);
+
+    this.scene.screenRects = frames.map((frame) =>
+      offsetRect(frame, -bounds.origin.x, -bounds.origin.y)
+    );
+  }
+
+  // The dock icon's rect near the mouse, and the screen it's on.
+  dockIcon() {
+    const mouseLocation = this.platform.mouse.location;
+
+    const currentScreen = this.platform.screens.all.find((screen) =>
+      pointInRect(mouseLocation, screen.frame)
+    );
+
+    if (!currentScreen) return;
+
+    const dock = new DockGeometry(
+      currentScreen,
+      this.platform.dock.preferences
+    );
+    const rect = constrainRect(
+      dock.iconRect(mouseLocation),
+      currentScreen.frame
+    );
+
+    return { rect, screen: currentScreen };
+  }
+
+  // Launches another ball from the dock icon. Returns false when the mouse
+  // isn't on any screen.
+  launch() {
+    const icon = this.dockIcon();
+    if (!icon) return false;
+
+    this.scene.launch(icon.rect, icon.screen);
+    this.ballVisible = true;
+    return true;
+  }
+
+  dock(onComplete = () => {}) {
+    const icon = this.dockIcon();
+    if (!this.ballVisible || !icon) return onComplete();
+
+    this.scene.dock(icon.rect, () => {
+      // A ball launched while the others were docking is still out.
+      if (this.scene.ballCount === 0) this.ballVisible = false;
+      onComplete();
+    });
+  }
+
+  // Returns whether the action applied, so unused presses reach other apps.
+  performKeyAction(
+    action: KeyAction,
+    speeds: Config["keyboard"],
+    isRepeat = false
+  ) {
+    const { nudge } = speeds;
+    switch (action) {
+      case "nudgeLeft":
+        return this.nudge({ dx: -nudge, dy: 0 });
+      case "nudgeRight":
+        return this.nudge({ dx: nudge, dy: 0 });
+      case "nudgeUp":
+        return this.nudge({ dx: 0, dy: nudge });
+      case "nudgeDown":
+        return this.nudge({ dx: 0, dy: -nudge });
+      case "hop":
+        if (!this.ballVisible) return false;
+        this.scene.hop(speeds.hop);
+        return true;
+    }
+
+    // Holding these down shouldn't launch a ball per repeat.
+    if (isRepeat) return true;
+    switch (action) {
+      case "dock":
+        if (!this.ballVisible) return false;
+        this.dock();
+        return true;
+      case "launch":
+        return this.launch();
+      case "toggle":
+        if (this.ballVisible) {
+          this.dock();
+          return true;
+        }
+        return this.launch();
+    }
+  }
+
+  nudge(change: CGVector) {
+    if (!this.ballVisible) return false;
+    this.scene.nudge(change);
+    return true;
+  }
+
+  handleReopen() {
+    if (this.ballVisible && !this.platform.keyboard.modifiers.option) {
+      this.dock();
+    } else {
+      this.launch();
+    }
+
+    return true;
+  }
+}
@@ -1,11 +1,35 @@
 import "@nativescript/macos-node-api";
 import { ViewController } from "./view_controller.js";
-import {
-  constrainRect,
-  getInferredRectOfHoveredDockIcon,
-  RADIUS,
-} from "./util.js";
 import { MouseCatcherView } from "./mouse_catcher.js";
+import { AppController } from "./app_controller.js";
+import { MacOSPlatform, MacOSWindow } from "./macos_platform.js";
+import { Config, ConfigStore } from "./config.js";
+import {
+  parseSessionArgs,
+  SessionRecorder,
+  SessionReplayer,
+} from "./session.js";
+import { systemClock } from "./clock.js";
+import { Theme, ThemeLoader } from "./theme.js";
+import {
+  JsonFileObstacleProvider,
+  WindowListObstacleProvider,
+} from "./obstacles.js";
+import {
+  AppState,
+  constrainBallToScreens,
+  STATE_VERSION,
+  StateStore,
+} from "./state.js";
+import { ControlServer, ControlTarget } from "./control.js";
+import { DiagnosticsLog } from "./diagnostics.js";
+import { HighScoreStore } from "./high_scores.js";
+import { GLOBAL_ACTIONS, KeyBindings } from "./keymap.js";
+import { KeyPress } from "./platform.js";
+import process from "node:process";
+
+// Seconds between saves of the ball's state while running.
+const STATE_SAVE_INTERVAL = 5;
 
 export class AppDelegate
   extends NSObject
@@ -17,48 +41,31 @@ export class AppDelegate
     NativeClass(this);
   }
 
-  ballWindow!: NSWindow;
-  ballViewController = ViewController.new();
-  clickWindow!: NSWindow;
-
-  putBackImageView = NSImageView.imageViewWithImage(
-    NSImage.alloc().initWithContentsOfFile(
-      new URL("../assets/PutBack.png", import.meta.url).pathname
-    )
-  );
-
-  ballImageView = NSImageView.imageViewWithImage(
-    NSImage.alloc().initWithContentsOfFile(
-      new URL("../assets/Ball.png", import.meta.url).pathname
-    )
+  platform = MacOSPlatform.instance;
+  themes = new ThemeLoader();
+  stateStore = new StateStore();
+  savedState = this.loadState();
+  configStore = ConfigStore.fromArgs(
+    process.argv.slice(2),
+    (theme) => this.themeDefaults(theme),
+    this.savedTheme()
   );
+  theme?: Theme;
+  keyBindings = this.loadKeyBindings();
+  highScores = new HighScoreStore();
 
-  _ballVisible = false;
-
-  get ballVisible() {
-    return this._ballVisible;
-  }
-
-  set ballVisible(value) {
-    if (value === this.ballVisible) {
-      return;
-    }
+  windowObstacles = new WindowListObstacleProvider(this.platform);
+  fileObstacles?: JsonFileObstacleProvider;
 
-    this._ballVisible = value;
+  ballWindow!: NSWindow;
+  ballViewController = ViewController.new();
+  clickWindow!: NSWindow;
+  catcher!: MouseCatcherView;
 
-    this.ballWindow.setIsVisible(value);
-    this.ballViewController.sceneView.isPaused = !value;
+  controller?: AppController;
+  controlServer?: ControlServer;
 
-    NSApp.dockTile.contentView = value
-      ? this.putBackImageView
-      : this.ballImageView;
-    NSApp.dockTile.display();
-
-    this.clickWindow.setIsVisible(value);
-    if (value) {
-      this.updateClickWindow();
-    }
-  }
+  sessionArgs = parseSessionArgs(process.argv.slice(2));
 
   makeBallWindow() {
     const window = NSWindow.alloc().initWithContentRectStyleMaskBackingDefer(
@@ -88,15 +95,15 @@ export class AppDelegate
     window.contentViewController = this.ballViewController;
 
     this.ballWindow = window;
-    this.updateWindowSize();
   }
 
   makeClickWindow() {
+    const radius = this.configStore.config.ball.radius;
     const clickWindow =
       NSWindow.alloc().initWithContentRectStyleMaskBackingDefer(
         {
           origin: { x: 0, y: 0 },
-          size: { width: RADIUS * 2, height: RADIUS * 2 },
+          size: { width: radius * 2, height: radius * 2 },
         },
         0,
         NSBackingStoreType.Buffered,
@@ -105,114 +112,360 @@ export class AppDelegate
     clickWindow.isReleasedWhenClosed = false;
     clickWindow.level = NSScreenSaverWindowLevel;
     clickWindow.backgroundColor = NSColor.clearColor;
+    // Clear pixels only let clicks through in a non-opaque window.
+    clickWindow.isOpaque = false;
+    clickWindow.hasShadow = false;
 
     const catcher = MouseCatcherView.new();
     clickWindow.contentView = catcher;
     catcher.frame = {
       origin: { x: 0, y: 0 },
-      size: { width: RADIUS * 2, height: RADIUS * 2 },
+      size: { width: radius * 2, height: radius * 2 },
     };
+    catcher.autoresizingMask =
+      NSAutoresizingMaskOptions.WidthSizable |
+      NSAutoresizingMaskOptions.HeightSizable;
     catcher.wantsLayer = true;
     catcher.layer.backgroundColor =
       NSColor.blackColor.colorWithAlphaComponent(0.01).CGColor;
-    catcher.layer.cornerRadius = RADIUS;
+    catcher.layer.cornerRadius = radius;
     catcher.delegate = this.ballViewController;
 
     this.clickWindow = clickWindow;
+    this.catcher = catcher;
 
     this.ballViewController.ballPositionChanged = () => {
-      this.updateClickWindow();
+      this.controller?.updateClickWindow();
     };
+    this.ballViewController.gameRoundOver = (score) =>
+      this.recordHighScore(score);
   }
 
-  updateClickWindow() {
-    const rect = this.ballViewController.mouseCatcherRect;
-    if (!this.ballVisible || !rect) return;
+  applyConfig(config: Config) {
+    if (this.theme?.id !== config.theme) {
+      try {
+        this.applyTheme(this.themes.load(config.theme));
+      } catch (error) {
+        console.error(`${error}. Keeping the current theme.`);
+      }
+    }
+
+    this.ballViewController.config = config;
+    this.applyObstacles(config);
+    this.applyControl(config);
+    this.applyDebug(config);
+    this.ballViewController.gameMode = config.game.enabled;
+    // A replay keeps the gravity it recorded.
+    if (!this.ballViewController.replaying) {
+      this.ballViewController.setGravityMode(config.gravity.mode);
+    }
+    this.controller?.updateClickWindow();
+  }
 
-    const rounding = 10;
-    rect.origin.x = Math.round(CGRectGetMinX(rect) / rounding) * rounding;
-    rect.origin.y = Math.round(CGRectGetMinY(rect) / rounding) * rounding;
+  diagnosticsPath?: string;
 
-    // HACK: Assume scene coords are same as window coords
-    const screen = this.ballWindow?.screen;
-    if (!screen) return;
+  applyDebug(config: Config) {
+    const vc = this.ballViewController;
+    vc.debugHud = config.debug.hud;
 
-    if (rect) {
-      this.clickWindow.setFrameDisplay(
-        constrainRect(rect, screen.frame),
-        false
-      );
+    const logPath = config.debug.log || undefined;
+    if (this.diagnosticsPath === logPath) return;
+
+    vc.diagnostics?.close();
+    vc.diagnostics = undefined;
+    this.diagnosticsPath = logPath;
+    if (!logPath) return;
+
+    try {
+      vc.diagnostics = DiagnosticsLog.toFile(logPath, systemClock);
+    } catch (error) {
+      console.error(`Could not open the diagnostics log: ${error}`);
     }
   }
 
-  updateWindowSize() {
-    const screen = this.ballWindow?.screen;
-    if (!screen) {
-      return;
+  logLifecycle(event: string, detail?: unknown) {
+    this.ballViewController.diagnostics?.log({
+      type: "lifecycle",
+      event,
+      detail,
+    });
+  }
+
+  applyControl(config: Config) {
+    const { port } = config.control;
+    if (this.controlServer?.port === port) return;
+
+    this.controlServer?.stop();
+    this.controlServer = undefined;
+    // Waits for launch, when there's a ball window to control.
+    if (port === 0 || !this.controller) return;
+
+    const server = new ControlServer(this.controlTarget(), port);
+    this.controlServer = server;
+    server.start().catch((error) => {
+      console.error(`Could not start the control server: ${error}`);
+      if (this.controlServer === server) this.controlServer = undefined;
+    });
+  }
+
+  controlTarget(): ControlTarget {
+    const vc = this.ballViewController;
+    const controller = this.controller!;
+
+    return {
+      launch: () => controller.launch(),
+      dock: () => new Promise((resolve) => controller.dock(resolve)),
+      impulse: (impulse, ball) => vc.applyImpulse(impulse, ball),
+      teleport: (position, ball) => vc.teleport(position, ball),
+      setGravity: (gravity) => vc.setGravity(gravity),
+      state: () => ({
+        visible: controller.ballVisible,
+        gravity: vc.world.gravity,
+        balls: vc.ballStates(),
+      }),
+    };
+  }
+
+  // A broken keymap falls back to the default keys rather than none.
+  loadKeyBindings() {
+    try {
+      return KeyBindings.fromFile();
+    } catch (error) {
+      console.error(`${error}. Using the default keys.`);
+      return new KeyBindings();
     }
+  }
 
-    this.ballWindow!.setFrameDisplay(
-      {
-        origin: { x: screen.frame.origin.x, y: screen.frame.origin.y },
-        size: {
-          width: screen.frame.size.width,
-          height: screen.frame.size.height,
-        },
-      },
-      true
+  monitorKeys() {
+    const keyboard = this.platform.keyboard;
+    keyboard.monitorLocal((press) => this.handleKeyPress(press));
+    keyboard.monitorGlobal((press) => {
+      const action = this.keyBindings.action(press);
+      if (action && GLOBAL_ACTIONS.includes(action)) this.handleKeyPress(press);
+    });
+  }
+
+  handleKeyPress(press: KeyPress) {
+    const action = this.keyBindings.action(press);
+    // Replays would drift from the recording.
+    if (!action || !this.controller || this.ballViewController.replaying) {
+      return false;
+    }
+
+    return this.controller.performKeyAction(
+      action,
+      this.configStore.config.keyboard,
+      press.isRepeat
     );
   }
 
+  applyObstacles(config: Config) {
+    const vc = this.ballViewController;
+
+    if (config.obstacles.windows) {
+      vc.addObstacleProvider(this.windowObstacles);
+    } else {
+      vc.removeObstacleProvider(this.windowObstacles);
+    }
+
+    if (this.fileObstacles?.filePath !== (config.obstacles.file || undefined)) {
+      if (this.fileObstacles) vc.removeObstacleProvider(this.fileObstacles);
+      this.fileObstacles = undefined;
+
+      if (config.obstacles.file) {
+        this.fileObstacles = new JsonFileObstacleProvider(
+          config.obstacles.file
+        );
+        vc.addObstacleProvider(this.fileObstacles);
+      }
+    }
+  }
+
+  applyTheme(theme: Theme) {
+    this.theme = theme;
+    this.platform.dockTile.setImages(
+      theme.dockTile.ball,
+      theme.dockTile.putBack
+    );
+    this.ballViewController.theme = theme;
+  }
+
   windowDidChangeScreen(_notification: NSNotification): void {
-    this.updateWindowSize();
+    this.controller?.updateBallWindowSize();
   }
 
   windowDidChangeScreenProfile(_notification: NSNotification): void {
-    this.updateWindowSize();
+    this.controller?.updateBallWindowSize();
+  }
+
+  applicationDidChangeScreenParameters(_notification: NSNotification): void {
+    this.logLifecycle("screensChanged", {
+      screens: this.platform.screens.all.map((screen) => screen.frame),
+    });
+    this.controller?.updateBallWindowSize();
+
+    // The Dock may have moved to another edge.
+    const vc = this.ballViewController;
+    if (!vc.replaying) vc.setGravityMode(this.configStore.config.gravity.mode);
   }
 
   applicationDidFinishLaunching(_notification: NSNotification): void {
     console.log("NSBall started!");
+    this.logLifecycle("appLaunched");
 
     this.makeBallWindow();
     this.makeClickWindow();
+
+    this.controller = new AppController(
+      this.platform,
+      this.ballViewController,
+      new MacOSWindow(this.ballWindow),
+      new MacOSWindow(this.clickWindow)
+    );
+    this.controller.updateBallWindowSize();
+
+    this.applyConfig(this.configStore.config);
+    this.configStore.onChange((config) => this.applyConfig(config));
+    this.configStore.watch();
+
+    if (!this.sessionArgs.replay) this.restoreState();
+    this.startSession();
+    this.monitorKeys();
+
+    this.platform.timers.schedule(
+      STATE_SAVE_INTERVAL,
+      () => this.saveState(),
+      true
+    );
   }
 
-  applicationWillFinishLaunching(_notification: NSNotification): void {
-    NSApp.applicationIconImage = this.ballImageView.image;
+  // A corrupt state file leaves the ball in the dock, as on a first launch.
+  loadState(): AppState | undefined {
+    try {
+      return this.stateStore.load();
+    } catch (error) {
+      console.error(`${error}. Starting with the ball in the dock.`);
+    }
   }
 
-  applicationShouldHandleReopenHasVisibleWindows(
-    _sender: NSApplication,
-    _flag: boolean
-  ): boolean {
-    let currentScreen: NSScreen | undefined;
+  // A theme that won't load only loses its own values; the rest of the
+  // user's config still applies, and `applyConfig` keeps the current theme.
+  themeDefaults(theme: string) {
+    try {
+      return this.themes.load(theme).config;
+    } catch (error) {
+      console.error(`${error}. Ignoring the theme's config values.`);
+      return {};
+    }
+  }
 
-    const mouseLocation = NSEvent.mouseLocation;
+  // The theme from the last launch, if it's still installed.
+  savedTheme() {
+    const theme = this.savedState?.theme;
+    return theme && this.themes.list().includes(theme) ? theme : undefined;
+  }
 
-    for (const screen of NSScreen.screens) {
-      if (NSPointInRect(mouseLocation, screen.frame)) {
-        currentScreen = screen;
-        break;
-      }
-    }
+  restoreState() {
+    const state = this.savedState;
+    if (!state?.visible || state.balls.length === 0) return;
 
-    if (!currentScreen) return true;
+    this.logLifecycle("stateRestored", { balls: state.balls.length });
 
-    const dockIconRect = constrainRect(
-      getInferredRectOfHoveredDockIcon(currentScreen),
-      currentScreen.frame
+    // The displays may have changed since the state was saved.
+    const frames = this.platform.screens.all.map((screen) => screen.frame);
+    this.ballViewController.restoreBalls(
+      state.balls.map((ball) => constrainBallToScreens(ball, frames))
     );
+    this.controller!.ballVisible = true;
+  }
 
-    if (this.ballVisible) {
-      this.ballViewController.dock(dockIconRect, () => {
-        this.ballVisible = false;
+  saveState() {
+    // Replays would otherwise overwrite the real state with recorded balls.
+    if (this.sessionArgs.replay) return;
+
+    const visible = this.controller?.ballVisible ?? false;
+    try {
+      this.stateStore.save({
+        version: STATE_VERSION,
+        visible,
+        theme: this.configStore.config.theme,
+        balls: visible ? this.ballViewController.ballStates() : [],
       });
-    } else {
-      this.ballViewController.launch(dockIconRect);
-      this.ballVisible = true;
+    } catch (error) {
+      console.error(`Could not save state: ${error}`);
+    }
+  }
+
+  recordHighScore(score: number) {
+    // Replayed rounds were already recorded when played.
+    if (this.sessionArgs.replay) return -1;
+
+    try {
+      return this.highScores.record(score);
+    } catch (error) {
+      console.error(`Could not save the high score: ${error}`);
+      return -1;
+    }
+  }
+
+  startSession() {
+    const vc = this.ballViewController;
+    const { record, replay } = this.sessionArgs;
+
+    if (record) {
+      vc.recorder = SessionRecorder.toFile(
+        record,
+        vc.clock,
+        vc.snapshotSession()
+      );
+    }
+
+    if (replay) {
+      let replayer: SessionReplayer;
+      try {
+        replayer = SessionReplayer.fromFile(vc, replay);
+      } catch (error) {
+        console.error(`Could not replay ${replay}: ${error}`);
+        return;
+      }
+
+      vc.replaying = true;
+      this.controller!.ballVisible = true;
+
+      const frameInterval = 1 / 120;
+      const cancel = this.platform.timers.schedule(
+        frameInterval,
+        () => {
+          if (replayer.advance(frameInterval)) return;
+
+          cancel();
+          vc.replaying = false;
+          vc.clock = systemClock;
+          vc.setGravityMode(this.configStore.config.gravity.mode);
+          console.log(`Finished replaying ${replay}`);
+        },
+        true
+      );
     }
+  }
 
-    return true;
+  applicationWillTerminate(_notification: NSNotification): void {
+    this.ballViewController.recorder?.close();
+    this.controlServer?.stop();
+    this.saveState();
+    this.logLifecycle("appTerminating");
+    this.ballViewController.diagnostics?.close();
+  }
+
+  applicationWillFinishLaunching(_notification: NSNotification): void {
+    // Early, so the app icon already comes from the theme.
+    this.applyConfig(this.configStore.config);
+  }
+
+  applicationShouldHandleReopenHasVisibleWindows(
+    _sender: NSApplication,
+    _flag: boolean
+  ): boolean {
+    return this.controller?.handleReopen() ?? true;
   }
 }
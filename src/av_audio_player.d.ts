@@ -0,0 +1,19 @@
+// AVAudioPlayer is missing from the @nativescript/macos-node-api typings, so
+// declare the part of it that MacOSSound uses.
+declare class AVAudioPlayer extends NSObject {
+  initWithContentsOfURLError(
+    url: NSURL,
+    error: interop.PointerConvertible
+  ): this;
+
+  volume: number;
+  // Only takes effect with `enableRate` set before `prepareToPlay`.
+  enableRate: boolean;
+  rate: number;
+  currentTime: number;
+  readonly playing: boolean;
+
+  prepareToPlay(): boolean;
+  play(): boolean;
+  stop(): void;
+}
@@ -1,6 +1,34 @@
 import "@nativescript/macos-node-api";
-import { SpringAnimation, SpringParams } from "./motion.js";
+import {
+  SpringAnimation,
+  SpringParams,
+  VectorSpringAnimation,
+} from "./motion.js";
+import { PhysicsBody } from "./physics.js";
 import { remap } from "./util.js";
+import { Config, DEFAULT_CONFIG, SpringConfig } from "./config.js";
+import { Theme } from "./theme.js";
+import { Deformation } from "./deformation.js";
+import { HitCircle } from "./hit_test.js";
+
+function springParams(config: SpringConfig) {
+  return new SpringParams(config.response, config.dampingRatio);
+}
+
+export interface BallTextures {
+  ball: SKTexture;
+  shadow: SKTexture;
+}
+
+export function loadBallTextures(theme: Theme): BallTextures {
+  const load = (path: string) =>
+    SKTexture.textureWithImage(NSImage.alloc().initWithContentsOfFile(path));
+
+  return {
+    ball: load(theme.textures.ball),
+    shadow: load(theme.textures.shadow),
+  };
+}
 
 objc.import("AppKit");
 objc.import("SpriteKit");
@@ -12,27 +40,40 @@ export class Ball extends SKNode {
 
   imgContainer = SKNode.new();
 
-  imgNode = SKSpriteNode.spriteNodeWithTexture(
-    SKTexture.textureWithImage(
-      NSImage.alloc().initWithContentsOfFile(
-        new URL("../assets/Ball.png", import.meta.url).pathname
-      )
-    )
-  );
-
-  shadowSprite = SKSpriteNode.spriteNodeWithTexture(
-    SKTexture.textureWithImage(
-      NSImage.alloc().initWithContentsOfFile(
-        new URL("../assets/ContactShadow.png", import.meta.url).pathname
-      )
-    )
-  );
+  imgNode = SKSpriteNode.new();
+  shadowSprite = SKSpriteNode.new();
   shadowContainer = SKNode.new();
 
   radius = 0;
 
-  dragScale = new SpringAnimation(1, 1000, new SpringParams(0.2, 0.8));
-  squish = new SpringAnimation(1, 1000, new SpringParams(0.3, 0.5));
+  body = PhysicsBody.circle(0);
+
+  // Angle of the ball image in radians, counterclockwise. The body turns as
+  // it rolls, so this follows the distance rolled.
+  get rotation() {
+    return this.body.zRotation;
+  }
+
+  set rotation(value) {
+    this.body.zRotation = value;
+  }
+
+  dragScale = new SpringAnimation(
+    1,
+    1000,
+    springParams(DEFAULT_CONFIG.springs.dragScale)
+  );
+  deformation = new Deformation({
+    normal: DEFAULT_CONFIG.springs.squish,
+    tangent: DEFAULT_CONFIG.springs.bulge,
+  });
+
+  scaleSpring = new SpringAnimation(1, 1000, new SpringParams(0.4, 0.8));
+  positionSpring = new VectorSpringAnimation(
+    [0, 0],
+    1,
+    new SpringParams(0.3, 1, 0.5)
+  );
 
   get rect() {
     return {
@@ -44,6 +85,15 @@ export class Ball extends SKNode {
     };
   }
 
+  // The circle the ball covers, in its parent's coordinates. Includes the
+  // launch and dock scaling and the bump while it's dragged.
+  get hitCircle(): HitCircle {
+    return {
+      center: this.position,
+      radius: this.radius * this.xScale * this.dragScale.value,
+    };
+  }
+
   _beingDragged = false;
 
   animateDrag(beingDragged: boolean) {
@@ -57,30 +107,27 @@ export class Ball extends SKNode {
     this.dragScale.start(beingDragged ? 1.05 : 1, this.dragScale.velocity);
   }
 
-  static create(radius: number, pos: CGPoint) {
+  static create(config: Config, pos: CGPoint, textures?: BallTextures) {
     const ball = Ball.new();
 
-    ball.radius = radius;
     ball.position = pos;
-    ball.imgNode.size = { width: radius * 2, height: radius * 2 };
+    ball.positionSpring.value = [pos.x, pos.y];
+    ball.positionSpring.onChange = ([x, y]) => (ball.position = { x, y });
+    ball.scaleSpring.onChange = (scale) => ball.setScale(scale);
 
-    const body = SKPhysicsBody.bodyWithCircleOfRadius(radius);
+    const body = PhysicsBody.circle(config.ball.radius);
 
+    body.position = pos;
     body.isDynamic = true;
-    body.restitution = 0.6;
-    body.allowsRotation = false;
     body.usesPreciseCollisionDetection = true;
     body.contactTestBitMask = 1;
 
-    ball.physicsBody = body;
+    ball.body = body;
+    ball.applyConfig(config);
+    if (textures) ball.setTextures(textures);
 
     ball.addChild(ball.shadowContainer);
     ball.shadowContainer.addChild(ball.shadowSprite);
-    const shadowWidth = radius * 4;
-    ball.shadowSprite.size = {
-      width: shadowWidth,
-      height: 0.564 * shadowWidth,
-    };
     ball.shadowSprite.alpha = 0;
     ball.shadowContainer.alpha = 0;
 
@@ -90,26 +137,75 @@ export class Ball extends SKNode {
     return ball;
   }
 
-  update() {
+  // With `previous`, the radius is only reset when the configured one
+  // changed, so reloading the config keeps pinched and restored sizes.
+  applyConfig(config: Config, previous?: Config) {
+    if (config.ball.radius !== previous?.ball.radius) {
+      this.setRadius(config.ball.radius);
+    }
+    this.body.restitution = config.ball.restitution;
+    this.dragScale.params = springParams(config.springs.dragScale);
+    this.deformation.setSprings(config.springs.squish, config.springs.bulge);
+  }
+
+  // Sprites keep their size when the texture changes, so this can be called
+  // at any time.
+  setTextures(textures: BallTextures) {
+    this.imgNode.texture = textures.ball;
+    this.shadowSprite.texture = textures.shadow;
+  }
+
+  setRadius(radius: number) {
+    this.radius = radius;
+    this.body.shape = { type: "circle", radius };
+    this.imgNode.size = { width: radius * 2, height: radius * 2 };
+
+    const shadowWidth = radius * 4;
+    this.shadowSprite.size = {
+      width: shadowWidth,
+      height: 0.564 * shadowWidth,
+    };
+  }
+
+  // `floor` is the height of whatever the ball would land on, which differs
+  // between screens. `elapsed` is the time since the last frame, in seconds.
+  update(floor: number, elapsed: number) {
+    this.deformation.step(elapsed, this.body.velocity);
+
     this.shadowSprite.position = {
       x: 0,
-      y: this.radius * 0.3 - this.position.y,
+      y: this.radius * 0.3 - (this.position.y - floor),
     };
 
-    const distFromBottom = this.position.y - this.radius;
+    const distFromBottom = this.position.y - floor - this.radius;
     this.shadowSprite.alpha = remap(distFromBottom, 0, 200, 1, 0);
 
-    const yDelta = (-(1 - this.imgContainer.xScale) * this.radius) / 2;
-    this.imgContainer.position = { x: 0, y: yDelta };
+    const { along, across } = this.deformation.scale;
+    const offset = this.deformation.offset;
+    this.imgContainer.zRotation = this.deformation.angle;
+    this.imgContainer.xScale = along;
+    this.imgContainer.yScale = across;
+    this.imgContainer.position = {
+      x: offset.dx * this.radius,
+      y: offset.dy * this.radius,
+    };
 
-    this.imgContainer.xScale = this.squish.value;
     this.imgNode.setScale(this.dragScale.value);
+
+    // The container turns to deform along its axis; undo that so only the
+    // ball's own rotation shows.
+    this.imgNode.zRotation = this.rotation - this.deformation.angle;
+  }
+
+  spin(radians: number) {
+    this.rotation += radians;
   }
 
   destroy() {
+    this.positionSpring.stop();
+    this.scaleSpring.stop();
     this.removeFromParent();
-    // @ts-expect-error it can be null, but headers do not make it nullable
-    this.physicsBody = null;
+    this.body.world?.removeBody(this.body);
   }
 
   animateShadow(visible: boolean, duration: number) {
@@ -120,17 +216,10 @@ export class Ball extends SKNode {
     }
   }
 
-  didCollide(strength: number, normal: CGVector) {
-    const angle = Math.atan2(normal.dy, normal.dx);
-    this.imgContainer.zRotation = angle;
-    this.imgNode.zRotation = -angle;
-
-    const targetScale = remap(strength, 0, 1, 1, 0.8);
-    const velocity = remap(strength, 0, 1, -5, -10);
-    this.squish.start(targetScale, velocity);
-
-    NSTimer.scheduledTimerWithTimeIntervalRepeatsBlock(0.01, false, () => {
-      this.squish.start(1, velocity);
+  didCollide(strength: number, contactPoint: CGPoint) {
+    this.deformation.impact(strength, {
+      dx: contactPoint.x - this.position.x,
+      dy: contactPoint.y - this.position.y,
     });
   }
 }
@@ -0,0 +1,98 @@
+import "@nativescript/macos-node-api";
+import { Clock, systemClock } from "./clock.js";
+import { Driver } from "./motion.js";
+
+export class CALayerDriver extends NSObject {
+  static ObjCExposedMethods = {
+    tick: { returns: interop.types.void, params: [] },
+  };
+
+  static {
+    NativeClass(this);
+  }
+
+  displayLink?: CADisplayLink;
+  tickers = new Set<(delta: number) => void>();
+  prevTick?: number;
+  // Milliseconds between the last two ticks.
+  lastDelta = 0;
+
+  clock: Clock = systemClock;
+
+  tick() {
+    if (!this.displayLink) {
+      throw new Error("Display link is not initialized and tick was called");
+    }
+
+    const timestamp = this.clock.now() * 1000;
+    const delta = this.prevTick ? timestamp - this.prevTick : 0;
+    this.prevTick = timestamp;
+    this.lastDelta = delta;
+
+    for (const ticker of this.tickers) {
+      ticker(delta);
+    }
+  }
+
+  static instance = CALayerDriver.new();
+
+  static driver: Driver = (update) => {
+    return {
+      start: () => {
+        this.instance.tickers.add(update);
+
+        if (this.instance.tickers.size === 1) {
+          this.start();
+        }
+      },
+
+      stop: () => {
+        if (!this.instance.tickers.delete(update)) {
+          return;
+        }
+
+        if (this.instance.tickers.size === 0) {
+          this.stop();
+        }
+      },
+    };
+  };
+
+  // Ticks per second, or undefined while nothing is animating.
+  static get rate() {
+    const { displayLink, lastDelta } = this.instance;
+    return displayLink && lastDelta > 0 ? 1000 / lastDelta : undefined;
+  }
+
+  static start() {
+    if (this.instance.displayLink) {
+      return;
+    }
+
+    this.instance.displayLink =
+      NSScreen.mainScreen.displayLinkWithTargetSelector(this.instance, "tick");
+
+    this.instance.displayLink.addToRunLoopForMode(
+      NSRunLoop.currentRunLoop,
+      NSDefaultRunLoopMode
+    );
+
+    this.instance.displayLink.preferredFrameRateRange = {
+      minimum: 90,
+      maximum: 120,
+      preferred: 120,
+    };
+
+    this.instance.prevTick = this.instance.clock.now() * 1000;
+  }
+
+  static stop() {
+    if (!this.instance.displayLink) {
+      return;
+    }
+
+    this.instance.displayLink.invalidate();
+    this.instance.displayLink = undefined;
+    this.instance.lastDelta = 0;
+  }
+}
@@ -0,0 +1,57 @@
+import process from "node:process";
+import { ConfigStore } from "./config.js";
+import { CONTROL_COMMANDS } from "./control.js";
+
+// A client for the control server in control.ts:
+//
+//   node dist/cli.js state
+//   node dist/cli.js impulse dx=0 dy=3000
+//   node dist/cli.js teleport x=500 y=800 ball=0
+//
+// The port comes from the same config file as the app, and can be given with
+// `--control.port=<port>` (or `--config=<path>`) as well.
+
+const USAGE = `usage: cli.js <${CONTROL_COMMANDS.join("|")}> [key=value ...]`;
+
+async function main(args: string[]) {
+  const [command, ...rest] = args.filter((arg) => !arg.startsWith("--"));
+  if (!command) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const body: Record<string, number> = {};
+  for (const arg of rest) {
+    const [key, value] = arg.split("=");
+    const number = Number(value);
+    if (!key || value === undefined || value.trim() === "" || isNaN(number)) {
+      console.error(`Expected key=number, got "${arg}"\n${USAGE}`);
+      return 2;
+    }
+    body[key] = number;
+  }
+
+  const port = ConfigStore.fromArgs(args).config.control.port;
+  if (port === 0) {
+    console.error(
+      "The control server is off. Set control.port in the config file."
+    );
+    return 1;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`http://127.0.0.1:${port}/${command}`, {
+      method: command === "state" ? "GET" : "POST",
+      body: command === "state" ? undefined : JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error(`Could not reach NSBall on port ${port}: ${error}`);
+    return 1;
+  }
+
+  console.log(JSON.stringify(await response.json(), null, 2));
+  return response.ok ? 0 : 1;
+}
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,20 @@
+export interface Clock {
+  // Current time in seconds. Only differences between readings are meaningful.
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => performance.now() / 1000,
+};
+
+export class ManualClock implements Clock {
+  constructor(public time = 0) {}
+
+  now() {
+    return this.time;
+  }
+
+  advance(seconds: number) {
+    this.time += seconds;
+  }
+}
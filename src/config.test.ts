@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { Config, ConfigStore } from "./config.js";
+
+// Resolves once `condition` returns something, polling until `deadline`
+// milliseconds have passed.
+async function waitFor<T>(
+  condition: () => T | undefined,
+  what: string,
+  deadline = 2000
+) {
+  const start = Date.now();
+  for (;;) {
+    const result = condition();
+    if (result) return result;
+    if (Date.now() - start > deadline) {
+      throw new Error(`Timed out waiting for ${what}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("ConfigStore", () => {
+  const error = console.error;
+  before(() => {
+    console.error = () => {};
+  });
+  after(() => {
+    console.error = error;
+  });
+
+  it(
+    "starts watching once a missing config directory is created",
+    { timeout: 10000 },
+    async () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), "nsball-config-"));
+      const directory = path.join(root, "config", "nsball");
+      const store = new ConfigStore(path.join(directory, "config.json"));
+
+      let config: Config | undefined;
+      store.onChange((changed) => (config = changed));
+      try {
+        store.watch();
+        assert.equal(store.watchedDirectory, root);
+
+        // Created one level at a time, as `mkdir` without `-p` would.
+        fs.mkdirSync(path.dirname(directory));
+        await waitFor(
+          () => store.watchedDirectory === path.dirname(directory),
+          "the watch to move to the parent"
+        );
+        fs.mkdirSync(directory);
+        await waitFor(
+          () => store.watchedDirectory === directory,
+          "the watch to move to the config directory"
+        );
+
+        fs.writeFileSync(
+          store.filePath,
+          JSON.stringify({ ball: { radius: 42 } })
+        );
+        const reloaded = await waitFor(() => config, "the config to reload");
+        assert.equal(reloaded.ball.radius, 42);
+      } finally {
+        store.unwatch();
+        fs.rmSync(root, { recursive: true });
+      }
+    }
+  );
+});
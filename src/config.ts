@@ -0,0 +1,552 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import { GRAVITY_MODES, GravityMode } from "./gravity.js";
+
+export interface SpringConfig {
+  response: number;
+  dampingRatio: number;
+}
+
+export interface Config {
+  // Name of the theme pack to use, see theme.ts.
+  theme: string;
+  ball: {
+    radius: number;
+    restitution: number;
+  };
+  launch: {
+    impulse: number;
+    edgeThreshold: number;
+  };
+  contact: {
+    minImpulse: number;
+    maxImpulse: number;
+  };
+  springs: {
+    dragScale: SpringConfig;
+    // Deformation along the contact normal or velocity, see deformation.ts.
+    squish: SpringConfig;
+    // Deformation across it.
+    bulge: SpringConfig;
+  };
+  obstacles: {
+    // Whether other apps' windows are solid.
+    windows: boolean;
+    // A JSON file of extra obstacles, see obstacles.ts. Empty for none.
+    file: string;
+  };
+  gravity: {
+    // One of `GRAVITY_MODES`, see gravity.ts.
+    mode: GravityMode;
+  };
+  trajectory: {
+    // Whether to show where a dragged ball would go if let go now.
+    preview: boolean;
+    // Seconds of flight shown, and how many bounces.
+    duration: number;
+    bounces: number;
+  };
+  game: {
+    // Whether to play the mini-game, see game.ts.
+    enabled: boolean;
+    // Seconds per round.
+    duration: number;
+  };
+  keyboard: {
+    // Speed changes, in points per second, from the nudge and hop keys. The
+    // keys themselves are set in keymap.json, see keymap.ts.
+    nudge: number;
+    hop: number;
+  };
+  control: {
+    // Port of the localhost control server, see control.ts. 0 turns it off.
+    port: number;
+  };
+  debug: {
+    // Whether to draw the debug HUD over the ball.
+    hud: boolean;
+    // A file to append the diagnostics log to, see diagnostics.ts. Empty for
+    // none.
+    log: string;
+  };
+}
+
+export const DEFAULT_CONFIG: Config = {
+  theme: "default",
+  ball: {
+    radius: 100,
+    restitution: 0.6,
+  },
+  launch: {
+    impulse: 2000,
+    edgeThreshold: 200,
+  },
+  contact: {
+    minImpulse: 1000,
+    maxImpulse: 2000,
+  },
+  springs: {
+    dragScale: { response: 0.2, dampingRatio: 0.8 },
+    squish: { response: 0.3, dampingRatio: 0.5 },
+    bulge: { response: 0.35, dampingRatio: 0.5 },
+  },
+  obstacles: {
+    windows: false,
+    file: "",
+  },
+  gravity: {
+    mode: "normal",
+  },
+  trajectory: {
+    preview: false,
+    duration: 1.5,
+    bounces: 2,
+  },
+  game: {
+    enabled: false,
+    duration: 60,
+  },
+  keyboard: {
+    nudge: 300,
+    hop: 700,
+  },
+  control: {
+    port: 0,
+  },
+  debug: {
+    hud: false,
+    log: "",
+  },
+};
+
+interface NumberRule {
+  type?: "number";
+  min?: number;
+  max?: number;
+  // Whether `min` itself is allowed.
+  inclusive?: boolean;
+}
+
+interface StringRule {
+  type: "string";
+  allowEmpty?: boolean;
+}
+
+interface BooleanRule {
+  type: "boolean";
+}
+
+type Rule = NumberRule | StringRule | BooleanRule;
+
+const positive: NumberRule = { min: 0, inclusive: false };
+const nonNegative: NumberRule = { min: 0, inclusive: true };
+
+const springRules = { response: positive, dampingRatio: positive };
+
+const SCHEMA = {
+  theme: { type: "string" },
+  ball: {
+    radius: positive,
+    restitution: { min: 0, max: 1, inclusive: true },
+  },
+  launch: {
+    impulse: nonNegative,
+    edgeThreshold: nonNegative,
+  },
+  contact: {
+    minImpulse: nonNegative,
+    maxImpulse: positive,
+  },
+  springs: {
+    dragScale: springRules,
+    squish: springRules,
+    bulge: springRules,
+  },
+  obstacles: {
+    windows: { type: "boolean" },
+    file: { type: "string", allowEmpty: true },
+  },
+  gravity: {
+    mode: { type: "string" },
+  },
+  trajectory: {
+    preview: { type: "boolean" },
+    duration: positive,
+    bounces: { min: 0, max: 10, inclusive: true },
+  },
+  game: {
+    enabled: { type: "boolean" },
+    duration: positive,
+  },
+  keyboard: {
+    nudge: nonNegative,
+    hop: nonNegative,
+  },
+  control: {
+    port: { min: 0, max: 65535, inclusive: true },
+  },
+  debug: {
+    hud: { type: "boolean" },
+    log: { type: "string", allowEmpty: true },
+  },
+};
+
+type Schema = { [key: string]: Schema | Rule };
+
+export class ConfigError extends Error {
+  constructor(public key: string, message: string) {
+    super(`Invalid config key "${key}": ${message}`);
+    this.name = "ConfigError";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isRule(value: Schema | Rule): value is Rule {
+  return Object.values(value).every((v) => !isObject(v));
+}
+
+function checkNumber(key: string, value: unknown, rule: NumberRule) {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ConfigError(
+      key,
+      `expected a number, got ${JSON.stringify(value)}`
+    );
+  }
+
+  if (rule.min !== undefined) {
+    if (rule.inclusive ? value < rule.min : value <= rule.min) {
+      throw new ConfigError(
+        key,
+        `expected a number ${rule.inclusive ? "of at least" : "greater than"} ${
+          rule.min
+        }, got ${value}`
+      );
+    }
+  }
+
+  if (rule.max !== undefined && value > rule.max) {
+    throw new ConfigError(
+      key,
+      `expected a number of at most ${rule.max}, got ${value}`
+    );
+  }
+
+  return value;
+}
+
+function checkString(key: string, value: unknown, rule: StringRule) {
+  if (typeof value !== "string" || (value === "" && !rule.allowEmpty)) {
+    throw new ConfigError(
+      key,
+      `expected a non-empty string, got ${JSON.stringify(value)}`
+    );
+  }
+
+  return value;
+}
+
+function checkBoolean(key: string, value: unknown) {
+  if (typeof value !== "boolean") {
+    throw new ConfigError(
+      key,
+      `expected true or false, got ${JSON.stringify(value)}`
+    );
+  }
+
+  return value;
+}
+
+function check(key: string, value: unknown, rule: Rule) {
+  switch (rule.type) {
+    case "string":
+      return checkString(key, value, rule);
+    case "boolean":
+      return checkBoolean(key, value);
+    default:
+      return checkNumber(key, value, rule);
+  }
+}
+
+function merge(
+  schema: Schema,
+  defaults: Record<string, unknown>,
+  input: unknown,
+  prefix: string
+): Record<string, unknown> {
+  if (input === undefined) input = {};
+  if (!isObject(input)) {
+    throw new ConfigError(prefix || "(root)", "expected an object");
+  }
+
+  for (const key of Object.keys(input)) {
+    if (!(key in schema)) {
+      throw new ConfigError(prefix ? `${prefix}.${key}` : key, "unknown key");
+    }
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, rule] of Object.entries(schema)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    const value = input[key];
+
+    if (isRule(rule)) {
+      result[key] =
+        value === undefined ? defaults[key] : check(fullKey, value, rule);
+    } else {
+      result[key] = merge(
+        rule,
+        defaults[key] as Record<string, unknown>,
+        value,
+        fullKey
+      );
+    }
+  }
+  return result;
+}
+
+// Fills in defaults for anything `input` leaves out, throwing a ConfigError
+// naming the first key that is unknown or out of range.
+export function validateConfig(input: unknown): Config {
+  const config = merge(
+    SCHEMA as Schema,
+    DEFAULT_CONFIG as unknown as Record<string, unknown>,
+    input,
+    ""
+  ) as unknown as Config;
+
+  if (config.contact.maxImpulse <= config.contact.minImpulse) {
+    throw new ConfigError(
+      "contact.maxImpulse",
+      `expected a number greater than contact.minImpulse (${config.contact.minImpulse}), got ${config.contact.maxImpulse}`
+    );
+  }
+
+  if (!GRAVITY_MODES.includes(config.gravity.mode)) {
+    throw new ConfigError(
+      "gravity.mode",
+      `expected one of ${GRAVITY_MODES.join(", ")}, got ${JSON.stringify(
+        config.gravity.mode
+      )}`
+    );
+  }
+
+  return config;
+}
+
+function setKeyPath(
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown
+) {
+  const parts = key.split(".");
+  let object = target;
+  for (const part of parts.slice(0, -1)) {
+    if (!isObject(object[part])) object[part] = {};
+    object = object[part] as Record<string, unknown>;
+  }
+  object[parts[parts.length - 1]] = value;
+}
+
+function deepMerge(base: unknown, overrides: unknown): unknown {
+  if (!isObject(base) || !isObject(overrides)) return overrides;
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    result[key] = deepMerge(base[key], value);
+  }
+  return result;
+}
+
+export function defaultConfigDirectory() {
+  const base =
+    process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return path.join(base, "nsball");
+}
+
+export interface ConfigArgs {
+  path: string;
+  overrides: Record<string, unknown>;
+}
+
+// Understands `--config <path>` (or `--config=<path>`) and `--<key>=<value>`
+// for any config key, e.g. `--ball.radius=150` or `--theme=beach`.
+export function parseConfigArgs(args: string[]): ConfigArgs {
+  let configPath = path.join(defaultConfigDirectory(), "config.json");
+  const overrides: Record<string, unknown> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) continue;
+
+    const [key, ...rest] = arg.slice(2).split("=");
+    let value: string | undefined = rest.length ? rest.join("=") : undefined;
+
+    if (key === "config") {
+      value ??= args[++i];
+      if (value) configPath = value;
+      continue;
+    }
+
+    if (!(key.includes(".") || key in SCHEMA) || value === undefined) continue;
+
+    const number = Number(value);
+    let parsed: unknown = value;
+    if (value === "true" || value === "false") {
+      parsed = value === "true";
+    } else if (value.trim() !== "" && !isNaN(number)) {
+      parsed = number;
+    }
+    setKeyPath(overrides, key, parsed);
+  }
+
+  return { path: configPath, overrides };
+}
+
+// `directory` itself if it exists, else its closest ancestor that does.
+function nearestDirectory(directory: string) {
+  let current = directory;
+  while (!fs.existsSync(current) && path.dirname(current) !== current) {
+    current = path.dirname(current);
+  }
+  return current;
+}
+
+export class ConfigStore {
+  config: Config = DEFAULT_CONFIG;
+
+  listeners = new Set<(config: Config) => void>();
+  watcher?: fs.FSWatcher;
+  // The directory `watcher` is on, a parent of the config's until it exists.
+  watchedDirectory?: string;
+  reloadTimeout?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    public filePath: string,
+    public overrides: Record<string, unknown> = {},
+    // Values the chosen theme brings, which the file and overrides win over.
+    public themeDefaults: (theme: string) => unknown = () => ({}),
+    // Used when neither the file nor the overrides name a theme.
+    public defaultTheme = DEFAULT_CONFIG.theme
+  ) {}
+
+  static fromArgs(
+    args = process.argv.slice(2),
+    themeDefaults?: (theme: string) => unknown,
+    defaultTheme?: string
+  ) {
+    const { path, overrides } = parseConfigArgs(args);
+    const store = new ConfigStore(path, overrides, themeDefaults, defaultTheme);
+
+    try {
+      store.config = store.read();
+    } catch (error) {
+      console.error(`${error}. Falling back to the default config.`);
+    }
+
+    return store;
+  }
+
+  read(): Config {
+    let fromFile: unknown = {};
+
+    if (fs.existsSync(this.filePath)) {
+      const text = fs.readFileSync(this.filePath, "utf8");
+      try {
+        fromFile = text.trim() ? JSON.parse(text) : {};
+      } catch (error) {
+        throw new ConfigError(
+          "(root)",
+          `${this.filePath} is not valid JSON: ${(error as Error).message}`
+        );
+      }
+    }
+
+    const input = deepMerge(fromFile, this.overrides);
+    const theme =
+      isObject(input) && typeof input.theme === "string"
+        ? input.theme
+        : this.defaultTheme;
+
+    return validateConfig(
+      deepMerge(deepMerge(this.themeDefaults(theme), { theme }), input)
+    );
+  }
+
+  // Keeps the current config when the file on disk doesn't validate, so a
+  // half-edited file never takes the app down.
+  reload() {
+    try {
+      this.config = this.read();
+    } catch (error) {
+      console.error(`${error}. Keeping the previous config.`);
+      return;
+    }
+
+    for (const listener of this.listeners) listener(this.config);
+  }
+
+  onChange(listener: (config: Config) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Watches the containing directory, since editors often save by replacing
+  // the file rather than writing to it.
+  watch() {
+    if (this.watcher) return;
+
+    const directory = path.dirname(this.filePath);
+    if (!fs.existsSync(directory)) {
+      console.error(
+        `${directory} does not exist. Config changes won't be picked up until it does.`
+      );
+      this.watchForDirectory(directory);
+      return;
+    }
+
+    const file = path.basename(this.filePath);
+    this.watchedDirectory = directory;
+    this.watcher = fs.watch(directory, (_event, changed) => {
+      if (changed && changed.toString() !== file) return;
+
+      clearTimeout(this.reloadTimeout);
+      this.reloadTimeout = setTimeout(() => this.reload(), 100);
+    });
+  }
+
+  // Watches the nearest existing parent of `directory` until it's created,
+  // then watches it as usual and reads any config written along with it.
+  watchForDirectory(directory: string) {
+    const parent = nearestDirectory(directory);
+    this.watchedDirectory = parent;
+    this.watcher = fs.watch(parent, () => {
+      const nearest = nearestDirectory(directory);
+      if (nearest === parent) return;
+
+      this.watcher?.close();
+      this.watcher = undefined;
+      if (nearest !== directory) {
+        this.watchForDirectory(directory);
+        return;
+      }
+
+      console.error(`Watching ${directory} for config changes.`);
+      this.watch();
+      if (fs.existsSync(this.filePath)) this.reload();
+    });
+  }
+
+  unwatch() {
+    clearTimeout(this.reloadTimeout);
+    this.watcher?.close();
+    this.watcher = undefined;
+    this.watchedDirectory = undefined;
+  }
+}
@@ -0,0 +1,255 @@
+import http from "node:http";
+import { BallState } from "./state.js";
+
+// A small HTTP API on localhost for driving the ball from scripts, e.g.
+//
+//   curl -X POST localhost:7247/impulse -d '{"dx": 0, "dy": 3000}'
+//
+// Every response is JSON. See cli.ts for a client.
+
+export interface ControlState {
+  visible: boolean;
+  gravity: CGVector;
+  // In screen coordinates.
+  balls: BallState[];
+}
+
+// What commands act on; `AppDelegate` in the app. Positions are in screen
+// coordinates.
+export interface ControlTarget {
+  // Launches a ball from the dock icon, returning false when there is no
+  // screen to launch onto.
+  launch(): boolean;
+  // Docks every ball; resolves once they're in the dock.
+  dock(): Promise<void>;
+  impulse(impulse: CGVector, ball?: number): void;
+  teleport(position: CGPoint, ball?: number): void;
+  setGravity(gravity: CGVector): void;
+  state(): ControlState;
+}
+
+export type ControlCommand =
+  | { type: "state" }
+  | { type: "launch" }
+  | { type: "dock" }
+  | { type: "impulse"; impulse: CGVector; ball?: number }
+  | { type: "teleport"; position: CGPoint; ball?: number }
+  | { type: "gravity"; gravity: CGVector };
+
+export const CONTROL_COMMANDS = [
+  "state",
+  "launch",
+  "dock",
+  "impulse",
+  "teleport",
+  "gravity",
+];
+
+export class ControlError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "ControlError";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function number(body: Record<string, unknown>, key: string) {
+  const value = body[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ControlError(400, `"${key}" must be a number`);
+  }
+  return value;
+}
+
+function ballIndex(body: Record<string, unknown>) {
+  if (body.ball === undefined) return;
+
+  const value = number(body, "ball");
+  if (!Number.isInteger(value) || value < 0) {
+    throw new ControlError(400, `"ball" must be an index into the balls`);
+  }
+  return value;
+}
+
+// Builds a command from its name and JSON body.
+export function parseCommand(name: string, body: unknown): ControlCommand {
+  if (body === undefined) body = {};
+  if (!isObject(body)) {
+    throw new ControlError(400, "expected the body to be a JSON object");
+  }
+
+  switch (name) {
+    case "state":
+    case "launch":
+    case "dock":
+      return { type: name };
+    case "impulse":
+      return {
+        type: "impulse",
+        impulse: { dx: number(body, "dx"), dy: number(body, "dy") },
+        ball: ballIndex(body),
+      };
+    case "teleport":
+      return {
+        type: "teleport",
+        position: { x: number(body, "x"), y: number(body, "y") },
+        ball: ballIndex(body),
+      };
+    case "gravity":
+      return {
+        type: "gravity",
+        gravity: { dx: number(body, "dx"), dy: number(body, "dy") },
+      };
+    default:
+      throw unknownCommand(name);
+  }
+}
+
+function unknownCommand(name: string) {
+  const commands = CONTROL_COMMANDS.join(", ");
+  return new ControlError(
+    404,
+    `unknown command "${name}", expected one of ${commands}`
+  );
+}
+
+// Runs `command`, returning the state afterwards.
+export async function runCommand(
+  target: ControlTarget,
+  command: ControlCommand
+): Promise<ControlState> {
+  const checkBall = (ball?: number) => {
+    const count = target.state().balls.length;
+    if (count === 0) throw new ControlError(409, "the ball is in the dock");
+    if (ball !== undefined && ball >= count) {
+      throw new ControlError(400, `no ball ${ball}, there are ${count}`);
+    }
+  };
+
+  switch (command.type) {
+    case "state":
+      break;
+    case "launch":
+      if (!target.launch()) {
+        throw new ControlError(409, "there is no screen to launch onto");
+      }
+      break;
+    case "dock":
+      await target.dock();
+      break;
+    case "impulse":
+      checkBall(command.ball);
+      target.impulse(command.impulse, command.ball);
+      break;
+    case "teleport":
+      checkBall(command.ball);
+      target.teleport(command.position, command.ball);
+      break;
+    case "gravity":
+      target.setGravity(command.gravity);
+      break;
+  }
+
+  return target.state();
+}
+
+// Commands take a few numbers, so anything much bigger is refused rather
+// than buffered.
+export const MAX_BODY_BYTES = 64 * 1024;
+
+function readBody(request: http.IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        chunks.length = 0;
+        reject(
+          new ControlError(
+            413,
+            `request bodies are limited to ${MAX_BODY_BYTES} bytes`
+          )
+        );
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+}
+
+// Serves `GET /state` and `POST /<command>` on 127.0.0.1.
+export class ControlServer {
+  server?: http.Server;
+
+  constructor(public target: ControlTarget, public port: number) {}
+
+  async handle(request: http.IncomingMessage) {
+    // Browsers send an Origin with cross-site requests; refusing those stops
+    // web pages from throwing the ball around.
+    if (request.headers.origin !== undefined) {
+      throw new ControlError(403, "requests from web pages are not allowed");
+    }
+
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const name = url.pathname.replace(/^\/+/, "");
+    if (!CONTROL_COMMANDS.includes(name)) throw unknownCommand(name);
+
+    const method = name === "state" ? "GET" : "POST";
+    if (request.method !== method) {
+      throw new ControlError(405, `use ${method} /${name}`);
+    }
+
+    const text = await readBody(request);
+    let body: unknown;
+    if (text.trim() !== "") {
+      try {
+        body = JSON.parse(text);
+      } catch (error) {
+        throw new ControlError(
+          400,
+          `invalid JSON: ${(error as Error).message}`
+        );
+      }
+    }
+
+    return runCommand(this.target, parseCommand(name, body));
+  }
+
+  start() {
+    if (this.server) return Promise.resolve();
+
+    const server = http.createServer((request, response) => {
+      this.handle(request).then(
+        (state) => {
+          response.writeHead(200, { "Content-Type": "application/json" });
+          response.end(JSON.stringify(state) + "\n");
+        },
+        (error: Error) => {
+          const status = error instanceof ControlError ? error.status : 500;
+          response.writeHead(status, { "Content-Type": "application/json" });
+          response.end(JSON.stringify({ error: error.message }) + "\n");
+        }
+      );
+    });
+    this.server = server;
+
+    return new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+  }
+
+  stop() {
+    this.server?.close();
+    this.server = undefined;
+  }
+}
@@ -0,0 +1,157 @@
+import "@nativescript/macos-node-api";
+
+// What the debug HUD shows. Positions and rects are in scene coordinates.
+export interface DebugInfo {
+  fps: number;
+  // Rate of the display link driving the springs, undefined while it's idle.
+  displayLinkRate?: number;
+  ball?: {
+    position: CGPoint;
+    velocity: CGVector;
+    // Radians per second, counterclockwise.
+    angularVelocity: number;
+    squish: number;
+    dragScale: number;
+  };
+  lastContact?: {
+    point: CGPoint;
+    normal: CGVector;
+    impulse: number;
+    // Seconds since the contact.
+    age: number;
+  };
+  clickWindowRect?: CGRect;
+}
+
+const fixed = (value: number, digits = 0) => value.toFixed(digits);
+
+export function debugHudLines(info: DebugInfo): string[] {
+  const lines = [
+    `fps ${fixed(info.fps)}`,
+    `display link ${
+      info.displayLinkRate === undefined
+        ? "idle"
+        : `${fixed(info.displayLinkRate)} Hz`
+    }`,
+  ];
+
+  const { ball, lastContact, clickWindowRect } = info;
+  if (ball) {
+    const { dx, dy } = ball.velocity;
+    lines.push(
+      `velocity (${fixed(dx)}, ${fixed(dy)}) ${fixed(Math.hypot(dx, dy))} pt/s`,
+      `spin ${fixed(ball.angularVelocity, 2)} rad/s`,
+      `squish ${fixed(ball.squish, 3)}  dragScale ${fixed(ball.dragScale, 3)}`
+    );
+  }
+
+  if (lastContact) {
+    const { normal, impulse, age } = lastContact;
+    lines.push(
+      `contact normal (${fixed(normal.dx, 2)}, ${fixed(normal.dy, 2)}) ` +
+        `impulse ${fixed(impulse)} ${fixed(age, 1)}s ago`
+    );
+  }
+
+  if (clickWindowRect) {
+    const { origin, size } = clickWindowRect;
+    lines.push(
+      `click window (${fixed(origin.x)}, ${fixed(origin.y)}) ` +
+        `${fixed(size.width)}×${fixed(size.height)}`
+    );
+  }
+
+  return lines;
+}
+
+// Seconds of travel the velocity arrow shows.
+const VELOCITY_ARROW_SECONDS = 0.1;
+const CONTACT_ARROW_LENGTH = 80;
+
+function linePath(from: CGPoint, to: CGPoint) {
+  const path = CGPathCreateMutable();
+  CGPathMoveToPoint(path, null, from.x, from.y);
+  CGPathAddLineToPoint(path, null, to.x, to.y);
+  return path;
+}
+
+function shapeNode(color: NSColor) {
+  const node = SKShapeNode.new();
+  node.strokeColor = color;
+  node.lineWidth = 2;
+  return node;
+}
+
+// Text and vectors drawn over the balls.
+export class DebugHud extends SKNode {
+  static {
+    NativeClass(this);
+  }
+
+  label = SKLabelNode.labelNodeWithFontNamed("Menlo");
+  velocityArrow = shapeNode(NSColor.systemGreenColor);
+  contactArrow = shapeNode(NSColor.systemRedColor);
+  clickWindowOutline = shapeNode(NSColor.systemBlueColor);
+
+  static create() {
+    const hud = DebugHud.new();
+    hud.zPosition = 1000;
+
+    hud.label.fontSize = 12;
+    hud.label.fontColor = NSColor.labelColor;
+    hud.label.numberOfLines = 0;
+    hud.label.horizontalAlignmentMode = SKLabelHorizontalAlignmentMode.Left;
+    hud.label.verticalAlignmentMode = SKLabelVerticalAlignmentMode.Top;
+
+    hud.addChild(hud.label);
+    hud.addChild(hud.velocityArrow);
+    hud.addChild(hud.contactArrow);
+    hud.addChild(hud.clickWindowOutline);
+    return hud;
+  }
+
+  // Draws `info` with the text's top left corner at `anchor`.
+  update(info: DebugInfo, anchor: CGPoint) {
+    this.label.text = debugHudLines(info).join("\n");
+    this.label.position = anchor;
+
+    const { ball, lastContact, clickWindowRect } = info;
+
+    this.velocityArrow.isHidden = !ball;
+    if (ball) {
+      const { position, velocity } = ball;
+      this.setPath(
+        this.velocityArrow,
+        linePath(position, {
+          x: position.x + velocity.dx * VELOCITY_ARROW_SECONDS,
+          y: position.y + velocity.dy * VELOCITY_ARROW_SECONDS,
+        })
+      );
+    }
+
+    this.contactArrow.isHidden = !lastContact;
+    if (lastContact) {
+      const { point, normal } = lastContact;
+      this.setPath(
+        this.contactArrow,
+        linePath(point, {
+          x: point.x + normal.dx * CONTACT_ARROW_LENGTH,
+          y: point.y + normal.dy * CONTACT_ARROW_LENGTH,
+        })
+      );
+    }
+
+    this.clickWindowOutline.isHidden = !clickWindowRect;
+    if (clickWindowRect) {
+      const path = CGPathCreateMutable();
+      CGPathAddRect(path, null, clickWindowRect);
+      this.setPath(this.clickWindowOutline, path);
+    }
+  }
+
+  // The node keeps its own copy of the path.
+  setPath(node: SKShapeNode, path: interop.Pointer) {
+    node.path = path;
+    CGPathRelease(path);
+  }
+}
@@ -0,0 +1,149 @@
+import { SpringConfig } from "./config.js";
+import { SpringSolver } from "./spring_solver.js";
+
+// Squash and stretch for a ball, as scales along and across an axis. Each
+// has its own spring, stepped by the caller once per frame rather than by a
+// timer, and the result is normalised so the ball keeps its apparent area.
+//
+// In flight the axis follows the velocity and the ball stretches with speed.
+// An impact turns the axis to the contact and kicks the springs in
+// proportion to its strength, squashing along it and bulging across it.
+
+export interface DeformationOptions {
+  // Spring along the axis (the contact normal or velocity).
+  normal: SpringConfig;
+  // Spring across the axis.
+  tangent: SpringConfig;
+  // Stretch per point per second of speed, up to `maxStretch`.
+  stretchPerSpeed?: number;
+  maxStretch?: number;
+  maxSquash?: number;
+  // Scale change per second per unit of impact strength.
+  impactVelocity?: number;
+}
+
+export interface DeformationScale {
+  along: number;
+  across: number;
+}
+
+class Spring {
+  value = 1;
+  velocity = 0;
+
+  constructor(public config: SpringConfig) {}
+
+  step(dt: number, target: number) {
+    const solver = new SpringSolver(
+      this.config.response,
+      this.config.dampingRatio,
+      this.value,
+      target,
+      this.velocity
+    );
+    this.value = solver.value(dt);
+    this.velocity = solver.velocity(dt);
+  }
+}
+
+export class Deformation {
+  normal: Spring;
+  tangent: Spring;
+
+  stretchPerSpeed: number;
+  maxStretch: number;
+  maxSquash: number;
+  impactVelocity: number;
+
+  // Radians counterclockwise from the x axis.
+  angle = 0;
+  // Unit vector from the centre towards the last contact, while the ball is
+  // still recovering from it.
+  contact?: CGVector;
+  // Seconds the axis stays on the contact before following the velocity.
+  holdRemaining = 0;
+
+  constructor(options: DeformationOptions) {
+    this.normal = new Spring(options.normal);
+    this.tangent = new Spring(options.tangent);
+    this.stretchPerSpeed = options.stretchPerSpeed ?? 0.00005;
+    this.maxStretch = options.maxStretch ?? 0.15;
+    this.maxSquash = options.maxSquash ?? 0.3;
+    this.impactVelocity = options.impactVelocity ?? 8;
+  }
+
+  setSprings(normal: SpringConfig, tangent: SpringConfig) {
+    this.normal.config = normal;
+    this.tangent.config = tangent;
+  }
+
+  // `strength` is 0 for the softest hit and 1 for the hardest; `toContact`
+  // points from the centre towards the contact point.
+  impact(strength: number, toContact: CGVector) {
+    const length = Math.hypot(toContact.dx, toContact.dy);
+    if (length === 0 || strength <= 0) return;
+
+    this.contact = { dx: toContact.dx / length, dy: toContact.dy / length };
+    this.turnTo(Math.atan2(this.contact.dy, this.contact.dx));
+    this.holdRemaining = this.normal.config.response;
+
+    const kick = strength * this.impactVelocity;
+    this.normal.velocity -= kick;
+    this.tangent.velocity += kick;
+  }
+
+  // Turns the axis, swapping the springs when the new axis is closer to the
+  // old cross axis, so the shape doesn't jump.
+  turnTo(angle: number) {
+    const turn = angle - this.angle;
+    if (Math.abs(Math.sin(turn)) > Math.abs(Math.cos(turn))) {
+      const { value, velocity } = this.normal;
+      this.normal.value = this.tangent.value;
+      this.normal.velocity = this.tangent.velocity;
+      this.tangent.value = value;
+      this.tangent.velocity = velocity;
+    }
+    this.angle = angle;
+  }
+
+  step(dt: number, velocity: CGVector) {
+    if (dt <= 0) return;
+
+    let stretch = 1;
+    if (this.holdRemaining > 0) {
+      this.holdRemaining -= dt;
+    } else {
+      this.contact = undefined;
+
+      const speed = Math.hypot(velocity.dx, velocity.dy);
+      if (speed > 0) {
+        this.turnTo(Math.atan2(velocity.dy, velocity.dx));
+        stretch += Math.min(speed * this.stretchPerSpeed, this.maxStretch);
+      }
+    }
+
+    this.normal.step(dt, stretch);
+    this.tangent.step(dt, 1 / stretch);
+  }
+
+  get scale(): DeformationScale {
+    const normal = Math.max(this.normal.value, 0.01);
+    const tangent = Math.max(this.tangent.value, 0.01);
+
+    const along = Math.min(
+      Math.max(normal / Math.sqrt(normal * tangent), 1 - this.maxSquash),
+      1 + this.maxStretch
+    );
+    return { along, across: 1 / along };
+  }
+
+  // How far the centre of the image moves, in radii, so a squashed ball
+  // still touches what it hit.
+  get offset(): CGVector {
+    const contact = this.contact;
+    if (!contact) return { dx: 0, dy: 0 };
+
+    const shift = Math.max(1 - this.scale.along, 0);
+    return { dx: contact.dx * shift, dy: contact.dy * shift };
+  }
+}
@@ -0,0 +1,61 @@
+import fs from "node:fs";
+import { Clock } from "./clock.js";
+
+// A structured log of what the ball went through, one JSON object per line
+// (NDJSON), for digging into misbehaviour after the fact. Times are seconds
+// since the log was opened; positions are in scene coordinates.
+export type DiagnosticsEvent =
+  | {
+      type: "contact";
+      bodies: [number, number];
+      impulse: number;
+      normal: CGVector;
+      point: CGPoint;
+    }
+  | { type: "dragStart"; ball: number; position: CGPoint }
+  | { type: "dragEnd"; ball: number; position: CGPoint; velocity: CGPoint }
+  | {
+      type: "lifecycle";
+      // e.g. "launched", "ballLaunched", "ballDocked", "screensChanged".
+      event: string;
+      detail?: unknown;
+    };
+
+export class DiagnosticsLog {
+  startTime: number;
+
+  constructor(
+    public write: (line: string) => void,
+    public clock: Clock,
+    public onClose: () => void = () => {}
+  ) {
+    this.startTime = clock.now();
+    this.log({
+      type: "lifecycle",
+      event: "logOpened",
+      detail: { startedAt: new Date().toISOString() },
+    });
+  }
+
+  // Appends, so a log can span several launches.
+  static toFile(path: string, clock: Clock) {
+    const fd = fs.openSync(path, "a");
+    return new DiagnosticsLog(
+      (line) => fs.writeSync(fd, line),
+      clock,
+      () => fs.closeSync(fd)
+    );
+  }
+
+  get time() {
+    return this.clock.now() - this.startTime;
+  }
+
+  log(event: DiagnosticsEvent) {
+    this.write(JSON.stringify({ time: this.time, ...event }) + "\n");
+  }
+
+  close() {
+    this.onClose();
+  }
+}
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_TILE_SIZE,
+  DOCK_ICON_EDGE_GAP,
+  DOCK_PADDING,
+  DockGeometry,
+} from "./dock_geometry.js";
+import { DockPreferences, PlatformScreen } from "./platform.js";
+
+// A 1440×900 screen at the origin with a 25pt menu bar, and the Dock taking
+// `inset` points from one edge.
+function screen(edge: "bottom" | "left" | "right", inset: number) {
+  const frame = { origin: { x: 0, y: 0 }, size: { width: 1440, height: 900 } };
+  const visibleFrame = {
+    origin: {
+      x: edge === "left" ? inset : 0,
+      y: edge === "bottom" ? inset : 0,
+    },
+    size: {
+      width: 1440 - (edge === "bottom" ? 0 : inset),
+      height: 900 - 25 - (edge === "bottom" ? inset : 0),
+    },
+  };
+  return { frame, visibleFrame } as PlatformScreen;
+}
+
+const defaults: DockPreferences = { autohide: false, magnification: false };
+
+describe("DockGeometry", () => {
+  it("finds a bottom Dock and its icon", () => {
+    const dock = new DockGeometry(screen("bottom", 79));
+    assert.equal(dock.edge, "bottom");
+    assert.equal(dock.tileSize, 64);
+    assert.equal(dock.thickness, 64 + DOCK_PADDING);
+
+    const rect = dock.iconRect({ x: 700, y: 30 });
+    assert.deepEqual(rect, {
+      origin: { x: 700 - 32, y: DOCK_ICON_EDGE_GAP },
+      size: { width: 64, height: 64 },
+    });
+  });
+
+  it("finds a left Dock and its icon", () => {
+    const dock = new DockGeometry(screen("left", 63));
+    assert.equal(dock.edge, "left");
+    assert.equal(dock.tileSize, 48);
+
+    const rect = dock.iconRect({ x: 20, y: 400 });
+    assert.deepEqual(rect, {
+      origin: { x: DOCK_ICON_EDGE_GAP, y: 400 - 24 },
+      size: { width: 48, height: 48 },
+    });
+  });
+
+  it("finds a right Dock and its icon", () => {
+    const dock = new DockGeometry(screen("right", 79));
+    assert.equal(dock.edge, "right");
+
+    const rect = dock.iconRect({ x: 1420, y: 500 });
+    assert.deepEqual(rect, {
+      origin: { x: 1440 - DOCK_ICON_EDGE_GAP - 64, y: 500 - 32 },
+      size: { width: 64, height: 64 },
+    });
+  });
+
+  it("prefers the Dock's own orientation over the insets", () => {
+    const dock = new DockGeometry(screen("bottom", 79), {
+      ...defaults,
+      orientation: "right",
+    });
+    assert.equal(dock.edge, "right");
+  });
+
+  it("uses the preferences when an auto-hidden Dock reserves nothing", () => {
+    // An auto-hidden Dock leaves only a few points behind.
+    const hidden = screen("left", 4);
+
+    const inferred = new DockGeometry(hidden);
+    assert.equal(inferred.reservedThickness, 0);
+    assert.equal(inferred.tileSize, DEFAULT_TILE_SIZE);
+
+    const dock = new DockGeometry(hidden, {
+      autohide: true,
+      magnification: false,
+      orientation: "left",
+      tileSize: 40,
+    });
+    assert.equal(dock.edge, "left");
+    assert.equal(dock.reservedThickness, 0);
+    assert.equal(dock.tileSize, 40);
+    assert.equal(dock.iconRect({ x: 2, y: 300 }).origin.x, DOCK_ICON_EDGE_GAP);
+  });
+
+  it("grows the icon with magnification, away from the edge", () => {
+    const dock = new DockGeometry(screen("bottom", 79), {
+      ...defaults,
+      magnification: true,
+      largeSize: 128,
+    });
+    assert.equal(dock.iconSize, 128);
+
+    const rect = dock.iconRect({ x: 700, y: 30 });
+    assert.equal(rect.origin.y, DOCK_ICON_EDGE_GAP);
+    assert.equal(rect.size.width, 128);
+    assert.equal(rect.origin.x, 700 - 64);
+  });
+
+  it("ignores magnification smaller than the tiles", () => {
+    const dock = new DockGeometry(screen("bottom", 79), {
+      ...defaults,
+      magnification: true,
+      largeSize: 32,
+    });
+    assert.equal(dock.iconSize, 64);
+  });
+});
@@ -0,0 +1,122 @@
+import { DockPreferences, PlatformScreen } from "./platform.js";
+import { rectMaxX, rectMaxY, rectMinX, rectMinY } from "./util.js";
+
+export type DockEdge = "bottom" | "left" | "right";
+
+// The Dock pads its tiles by this much in total, measured across the bar:
+// 64pt tiles reserve a 79pt strip of the screen (macOS 12–14).
+export const DOCK_PADDING = 15;
+
+// Icons don't sit in the middle of the bar: the gap between a tile and the
+// screen edge is only this big, the rest of the padding is on the inside.
+export const DOCK_ICON_EDGE_GAP = 2.5;
+
+// The `tilesize` the Dock uses until it has been resized.
+export const DEFAULT_TILE_SIZE = 64;
+
+// The smallest inset treated as the Dock rather than rounding or the gap
+// an auto-hidden Dock leaves behind.
+const MIN_DOCK_INSET = 8;
+
+export interface ScreenInsets {
+  left: number;
+  right: number;
+  bottom: number;
+  top: number;
+}
+
+// How far `visibleFrame` is pulled in from each edge of `frame`. Comparing
+// the two (rather than checking for a zero origin) keeps this correct on
+// screens that aren't at the origin of the global coordinate space.
+export function screenInsets(screen: PlatformScreen): ScreenInsets {
+  const { frame, visibleFrame } = screen;
+  return {
+    left: rectMinX(visibleFrame) - rectMinX(frame),
+    right: rectMaxX(frame) - rectMaxX(visibleFrame),
+    bottom: rectMinY(visibleFrame) - rectMinY(frame),
+    top: rectMaxY(frame) - rectMaxY(visibleFrame),
+  };
+}
+
+// Where the Dock is on a screen and where its icons are. The Dock's own
+// preferences are used when known, since `visibleFrame` says nothing about
+// an auto-hidden Dock; otherwise everything is inferred from the insets.
+export class DockGeometry {
+  constructor(
+    public screen: PlatformScreen,
+    public preferences: DockPreferences = {
+      autohide: false,
+      magnification: false,
+    }
+  ) {}
+
+  get insets() {
+    return screenInsets(this.screen);
+  }
+
+  get edge(): DockEdge {
+    if (this.preferences.orientation) return this.preferences.orientation;
+
+    // The top inset is the menu bar, which never holds the Dock.
+    const { left, right, bottom } = this.insets;
+    if (left > bottom && left > right) return "left";
+    if (right > bottom && right > left) return "right";
+    return "bottom";
+  }
+
+  // How much of the screen the Dock keeps other windows out of; 0 when it
+  // hides itself or lives on another screen.
+  get reservedThickness() {
+    const inset = this.insets[this.edge];
+    return inset >= MIN_DOCK_INSET ? inset : 0;
+  }
+
+  get tileSize() {
+    if (this.preferences.tileSize) return this.preferences.tileSize;
+
+    const reserved = this.reservedThickness;
+    return reserved > DOCK_PADDING
+      ? reserved - DOCK_PADDING
+      : DEFAULT_TILE_SIZE;
+  }
+
+  // Thickness of the Dock while it is showing.
+  get thickness() {
+    return this.tileSize + DOCK_PADDING;
+  }
+
+  // Size of the hovered icon, which grows when magnification is on.
+  get iconSize() {
+    const { magnification, largeSize } = this.preferences;
+    if (magnification && largeSize) return Math.max(this.tileSize, largeSize);
+    return this.tileSize;
+  }
+
+  // The rect of the icon under `mouseLocation`. Icons are only known to be
+  // somewhere along the Dock, so the icon is centred on the mouse along it.
+  iconRect(mouseLocation: CGPoint): CGRect {
+    const { frame } = this.screen;
+    const size = this.iconSize;
+
+    // Magnified icons grow away from the edge they're anchored to.
+    const fromEdge = DOCK_ICON_EDGE_GAP + size / 2;
+
+    const center = { x: mouseLocation.x, y: mouseLocation.y };
+    switch (this.edge) {
+      case "bottom":
+        center.y = rectMinY(frame) + fromEdge;
+        break;
+      case "left":
+        center.x = rectMinX(frame) + fromEdge;
+        break;
+      case "right":
+        center.x = rectMaxX(frame) - fromEdge;
+        break;
+    }
+
+    return {
+      origin: { x: center.x - size / 2, y: center.y - size / 2 },
+      size: { width: size, height: size },
+    };
+  }
+}
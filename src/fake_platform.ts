@@ -0,0 +1,233 @@
+import {
+  DockPreferences,
+  DockTileContent,
+  KeyModifiers,
+  Platform,
+  PlatformDock,
+  PlatformDockTile,
+  KeyPress,
+  PlatformKeyboard,
+  PlatformMouse,
+  PlatformScreen,
+  PlatformScreens,
+  PlatformSound,
+  PlatformSounds,
+  PlatformTimers,
+  PlatformWindow,
+  PlatformWindowList,
+  WindowInfo,
+} from "./platform.js";
+import { pointInRect, rectMidX, rectMidY } from "./util.js";
+
+export class FakeScreen implements PlatformScreen {
+  constructor(public frame: CGRect, public visibleFrame: CGRect = frame) {}
+}
+
+export class FakeScreens implements PlatformScreens {
+  all: FakeScreen[] = [];
+
+  get main() {
+    return this.all[0];
+  }
+
+  screenContaining(point: CGPoint) {
+    return this.all.find((screen) => pointInRect(point, screen.frame));
+  }
+}
+
+export class FakeMouse implements PlatformMouse {
+  location: CGPoint = { x: 0, y: 0 };
+}
+
+export class FakeKeyboard implements PlatformKeyboard {
+  modifiers: KeyModifiers = {
+    shift: false,
+    control: false,
+    option: false,
+    command: false,
+  };
+  localHandlers = new Set<(press: KeyPress) => boolean>();
+  globalHandlers = new Set<(press: KeyPress) => void>();
+
+  monitorLocal(handler: (press: KeyPress) => boolean) {
+    this.localHandlers.add(handler);
+    return () => void this.localHandlers.delete(handler);
+  }
+
+  monitorGlobal(handler: (press: KeyPress) => void) {
+    this.globalHandlers.add(handler);
+    return () => void this.globalHandlers.delete(handler);
+  }
+
+  // Delivers a press as if this app (or, with `global`, another app) were
+  // active, with the current `modifiers`. Returns whether it was consumed.
+  press(key: string, global = false, isRepeat = false) {
+    const press = { key, modifiers: { ...this.modifiers }, isRepeat };
+    if (global) {
+      for (const handler of this.globalHandlers) handler(press);
+      return false;
+    }
+    let consumed = false;
+    for (const handler of this.localHandlers) {
+      consumed = handler(press) || consumed;
+    }
+    return consumed;
+  }
+}
+
+export class FakeWindow implements PlatformWindow {
+  isVisible = false;
+  frameChanges: CGRect[] = [];
+
+  constructor(public screens: FakeScreens, public frame: CGRect) {}
+
+  get screen() {
+    return this.screens.screenContaining({
+      x: rectMidX(this.frame),
+      y: rectMidY(this.frame),
+    });
+  }
+
+  setFrame(frame: CGRect) {
+    this.frame = frame;
+    this.frameChanges.push(frame);
+  }
+}
+
+export class FakeWindowList implements PlatformWindowList {
+  windows: WindowInfo[] = [];
+}
+
+export class FakeDock implements PlatformDock {
+  preferences: DockPreferences = { autohide: false, magnification: false };
+}
+
+export class FakeDockTile implements PlatformDockTile {
+  content: DockTileContent = "ball";
+  images?: { ball: string; putBack: string };
+
+  setImages(ball: string, putBack: string) {
+    this.images = { ball, putBack };
+  }
+}
+
+// Records every play; a sound keeps playing until `finish` or `stop`.
+export class FakeSound implements PlatformSound {
+  volume = 1;
+  rate = 1;
+  isPlaying = false;
+  plays: { volume: number; rate: number }[] = [];
+
+  constructor(public path: string) {}
+
+  play() {
+    this.plays.push({ volume: this.volume, rate: this.rate });
+    this.isPlaying = true;
+  }
+
+  stop() {
+    this.isPlaying = false;
+  }
+
+  finish() {
+    this.isPlaying = false;
+  }
+}
+
+export class FakeSounds implements PlatformSounds {
+  loaded: FakeSound[] = [];
+
+  load(path: string) {
+    const sound = new FakeSound(path);
+    this.loaded.push(sound);
+    return sound;
+  }
+}
+
+// Sounds that are never heard, for running without audio.
+export class NullSound implements PlatformSound {
+  volume = 1;
+  rate = 1;
+  isPlaying = false;
+
+  play() {}
+
+  stop() {}
+}
+
+export class NullSounds implements PlatformSounds {
+  load(_path: string) {
+    return new NullSound();
+  }
+}
+
+interface FakeTimer {
+  fireAt: number;
+  interval: number;
+  repeats: boolean;
+  callback: () => void;
+}
+
+export class FakeTimers implements PlatformTimers {
+  time = 0;
+  timers: FakeTimer[] = [];
+
+  now() {
+    return this.time;
+  }
+
+  schedule(seconds: number, callback: () => void, repeats = false) {
+    const timer = {
+      fireAt: this.time + seconds,
+      interval: seconds,
+      repeats,
+      callback,
+    };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter((t) => t !== timer);
+    };
+  }
+
+  advance(seconds: number) {
+    const end = this.time + seconds;
+
+    for (;;) {
+      const due = this.timers
+        .filter((timer) => timer.fireAt <= end)
+        .sort((a, b) => a.fireAt - b.fireAt)[0];
+      if (!due) break;
+
+      this.time = due.fireAt;
+      if (due.repeats && due.interval > 0) {
+        due.fireAt += due.interval;
+      } else {
+        this.timers = this.timers.filter((t) => t !== due);
+      }
+      due.callback();
+    }
+
+    this.time = end;
+  }
+}
+
+export class FakePlatform implements Platform {
+  screens = new FakeScreens();
+  mouse = new FakeMouse();
+  keyboard = new FakeKeyboard();
+  windowList = new FakeWindowList();
+  dock = new FakeDock();
+  dockTile = new FakeDockTile();
+  sounds = new FakeSounds();
+  timers = new FakeTimers();
+
+  addScreen(frame: CGRect, visibleFrame: CGRect = frame) {
+    const screen = new FakeScreen(frame, visibleFrame);
+    this.screens.all.push(screen);
+    return screen;
+  }
+
+  createWindow(frame: CGRect) {
+    return new FakeWindow(this.screens, frame);
+  }
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Game, GameTarget } from "./game.js";
+
+const bin: GameTarget = {
+  kind: "bin",
+  rect: { origin: { x: 0, y: 0 }, size: { width: 100, height: 50 } },
+};
+
+function position(time: number, x: number) {
+  return {
+    type: "position",
+    ball: 1,
+    time,
+    position: { x, y: 25 },
+    touching: true,
+  } as const;
+}
+
+describe("Game", () => {
+  it("scores a bin once per throw", () => {
+    const game = new Game([bin]);
+    game.handle({
+      type: "throw",
+      ball: 1,
+      time: 0,
+      position: { x: 300, y: 300 },
+    });
+
+    // Rolling in, out and back in again.
+    game.handle(position(1, 150));
+    assert.equal(game.handle(position(2, 50)).length, 1);
+    game.handle(position(3, 150));
+    assert.deepEqual(game.handle(position(4, 50)), []);
+    assert.equal(game.score, 2);
+
+    game.handle({
+      type: "throw",
+      ball: 1,
+      time: 5,
+      position: { x: 150, y: 300 },
+    });
+    game.handle(position(6, 150));
+    assert.equal(game.handle(position(7, 50)).length, 1);
+    assert.equal(game.score, 4);
+  });
+});
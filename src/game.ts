@@ -0,0 +1,205 @@
+import { pointInRect } from "./util.js";
+
+// Rules of the mini-game. A round starts with a throw and lasts `duration`
+// seconds, during which balls score by dropping through a hoop or rolling
+// into a bin. Each score is worth the target's points times one more than
+// the bounces since the throw, plus a point per second the ball has been in
+// the air without touching anything. A bin only scores once per throw, so a
+// ball rocking in and out of it doesn't keep adding up.
+//
+// Nothing here draws or simulates: `ViewController` feeds in events, in
+// scene coordinates, and shows what comes back.
+
+export type GameTarget =
+  // Scores when a ball's centre drops through the rim, from above.
+  | { kind: "hoop"; rim: { x: number; y: number; width: number } }
+  // Scores when a ball's centre enters the rect.
+  | { kind: "bin"; rect: CGRect };
+
+export const TARGET_POINTS: Record<GameTarget["kind"], number> = {
+  hoop: 5,
+  bin: 2,
+};
+
+// `ball` is any id that stays the same for a ball, and `time` is in seconds.
+export type GameEvent =
+  | { type: "throw"; ball: number; time: number; position: CGPoint }
+  | { type: "contact"; ball: number; time: number }
+  | {
+      type: "position";
+      ball: number;
+      time: number;
+      position: CGPoint;
+      // Whether the ball is touching anything, e.g. rolling along the floor.
+      touching: boolean;
+    };
+
+export type GameOutcome =
+  | {
+      type: "score";
+      ball: number;
+      target: GameTarget;
+      points: number;
+      bounces: number;
+      airtime: number;
+    }
+  | { type: "roundOver"; score: number };
+
+export type GamePhase = "waiting" | "playing" | "over";
+
+interface BallTrack {
+  position?: CGPoint;
+  bounces: number;
+  airborneSince: number;
+  // Bins this ball has scored in since it was thrown.
+  scoredBins: Set<GameTarget>;
+}
+
+export class Game {
+  phase: GamePhase = "waiting";
+  score = 0;
+  // Totals for the current (or last) round.
+  bounces = 0;
+  longestAirtime = 0;
+  roundEnd = 0;
+
+  tracks = new Map<number, BallTrack>();
+
+  // `duration` is the length of a round in seconds.
+  constructor(public targets: GameTarget[], public duration = 60) {}
+
+  remaining(time: number) {
+    return this.phase === "playing" ? Math.max(this.roundEnd - time, 0) : 0;
+  }
+
+  // Ends the round once its time is up. Events do this too, but should be
+  // called when none might come, e.g. with every ball docked.
+  tick(time: number): GameOutcome[] {
+    if (this.phase !== "playing" || time < this.roundEnd) return [];
+
+    this.phase = "over";
+    return [{ type: "roundOver", score: this.score }];
+  }
+
+  handle(event: GameEvent): GameOutcome[] {
+    const outcomes = this.tick(event.time);
+
+    if (event.type === "throw" && this.phase !== "playing") {
+      this.phase = "playing";
+      this.score = 0;
+      this.bounces = 0;
+      this.longestAirtime = 0;
+      this.roundEnd = event.time + this.duration;
+    }
+
+    const track = this.track(event.ball, event.time);
+    switch (event.type) {
+      case "throw":
+        track.position = event.position;
+        track.bounces = 0;
+        track.airborneSince = event.time;
+        track.scoredBins.clear();
+        break;
+      case "contact":
+        this.land(track, event.time);
+        track.bounces++;
+        if (this.phase === "playing") this.bounces++;
+        break;
+      case "position": {
+        const previous = track.position;
+        track.position = event.position;
+        const airtime = event.touching ? 0 : event.time - track.airborneSince;
+        if (event.touching) this.land(track, event.time);
+        if (!previous || this.phase !== "playing") break;
+
+        for (const target of this.targets) {
+          if (!passesThrough(target, previous, event.position)) continue;
+          if (target.kind === "bin") {
+            if (track.scoredBins.has(target)) continue;
+            track.scoredBins.add(target);
+          }
+
+          const points =
+            TARGET_POINTS[target.kind] * (track.bounces + 1) +
+            Math.floor(airtime);
+          this.score += points;
+          outcomes.push({
+            type: "score",
+            ball: event.ball,
+            target,
+            points,
+            bounces: track.bounces,
+            airtime,
+          });
+        }
+        break;
+      }
+    }
+
+    return outcomes;
+  }
+
+  track(ball: number, time: number) {
+    let track = this.tracks.get(ball);
+    if (!track) {
+      track = { bounces: 0, airborneSince: time, scoredBins: new Set() };
+      this.tracks.set(ball, track);
+    }
+    return track;
+  }
+
+  land(track: BallTrack, time: number) {
+    if (this.phase === "playing") {
+      this.longestAirtime = Math.max(
+        this.longestAirtime,
+        time - track.airborneSince
+      );
+    }
+    track.airborneSince = time;
+  }
+
+  // Forgets a ball that was docked or removed.
+  removeBall(ball: number) {
+    this.tracks.delete(ball);
+  }
+}
+
+export function passesThrough(target: GameTarget, from: CGPoint, to: CGPoint) {
+  if (target.kind === "bin") {
+    return !pointInRect(from, target.rect) && pointInRect(to, target.rect);
+  }
+
+  const { x, y, width } = target.rim;
+  if (!(from.y > y && to.y <= y)) return false;
+
+  // Where the centre crossed the rim's height.
+  const t = (from.y - y) / (from.y - to.y);
+  const crossing = from.x + (to.x - from.x) * t;
+  return crossing >= x && crossing <= x + width;
+}
+
+// A hoop high up near the right edge of `screen` and a bin in each bottom
+// corner, sized for balls of `radius`.
+export function layoutTargets(screen: CGRect, radius: number): GameTarget[] {
+  const { origin, size } = screen;
+  const binSize = { width: radius * 3, height: radius * 1.5 };
+
+  return [
+    {
+      kind: "hoop",
+      rim: {
+        x: origin.x + size.width - radius * 5,
+        y: origin.y + size.height * 0.6,
+        width: radius * 3,
+      },
+    },
+    { kind: "bin", rect: { origin, size: binSize } },
+    {
+      kind: "bin",
+      rect: {
+        origin: { x: origin.x + size.width - binSize.width, y: origin.y },
+        size: binSize,
+      },
+    },
+  ];
+}
@@ -0,0 +1,102 @@
+import "@nativescript/macos-node-api";
+import { Game, GameTarget } from "./game.js";
+
+const RIM_WIDTH = 6;
+// Seconds a "+points" label floats up for.
+const POPUP_DURATION = 1;
+
+export function gameStatusText(game: Game, time: number, rank?: number) {
+  switch (game.phase) {
+    case "waiting":
+      return "Throw the ball to start";
+    case "playing": {
+      const remaining = Math.ceil(game.remaining(time));
+      return `Score ${game.score}   Bounces ${game.bounces}   ${remaining}s`;
+    }
+    case "over": {
+      const place = rank === undefined || rank < 0 ? "" : ` (#${rank + 1})`;
+      return `Round over: ${game.score}${place}. Throw to play again`;
+    }
+  }
+}
+
+function targetNode(target: GameTarget) {
+  const path = CGPathCreateMutable();
+  if (target.kind === "hoop") {
+    const { x, y, width } = target.rim;
+    CGPathMoveToPoint(path, null, x, y);
+    CGPathAddLineToPoint(path, null, x + width, y);
+  } else {
+    CGPathAddRect(path, null, target.rect);
+  }
+
+  const node = SKShapeNode.shapeNodeWithPath(path);
+  CGPathRelease(path);
+
+  if (target.kind === "hoop") {
+    node.strokeColor = NSColor.systemOrangeColor;
+    node.lineWidth = RIM_WIDTH;
+    node.lineCap = CGLineCap.Round;
+  } else {
+    node.strokeColor = NSColor.systemTealColor;
+    node.fillColor = NSColor.systemTealColor.colorWithAlphaComponent(0.15);
+    node.lineWidth = 2;
+  }
+  return node;
+}
+
+// The targets, the score and the points each score earns, drawn behind the
+// balls.
+export class GameOverlay extends SKNode {
+  static {
+    NativeClass(this);
+  }
+
+  targets = SKNode.new();
+  status = SKLabelNode.labelNodeWithFontNamed("Menlo-Bold");
+
+  static create() {
+    const overlay = GameOverlay.new();
+    overlay.zPosition = -2;
+
+    overlay.status.fontSize = 18;
+    overlay.status.fontColor = NSColor.labelColor;
+    overlay.status.horizontalAlignmentMode =
+      SKLabelHorizontalAlignmentMode.Center;
+    overlay.status.verticalAlignmentMode = SKLabelVerticalAlignmentMode.Top;
+
+    overlay.addChild(overlay.targets);
+    overlay.addChild(overlay.status);
+    return overlay;
+  }
+
+  setTargets(targets: GameTarget[]) {
+    this.targets.removeAllChildren();
+    for (const target of targets) this.targets.addChild(targetNode(target));
+  }
+
+  // Draws the status line with its top centre at `anchor`.
+  update(text: string, anchor: CGPoint) {
+    this.status.text = text;
+    this.status.position = anchor;
+  }
+
+  showPoints(points: number, position: CGPoint) {
+    const label = SKLabelNode.labelNodeWithFontNamed("Menlo-Bold");
+    label.text = `+${points}`;
+    label.fontSize = 24;
+    label.fontColor = NSColor.systemYellowColor;
+    label.position = position;
+    this.addChild(label);
+
+    label.runAction(
+      SKAction.sequence([
+        SKAction.group([
+          SKAction.moveByDuration({ dx: 0, dy: 60 }, POPUP_DURATION),
+          SKAction.fadeOutWithDuration(POPUP_DURATION),
+        ]),
+        SKAction.removeFromParent(),
+      ])
+    );
+  }
+}
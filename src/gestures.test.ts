@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  GesturePhase,
+  GestureRecognizer,
+  GestureTarget,
+  ScrollEvent,
+} from "./gestures.js";
+
+// Records what the recognizer asks for, with a ball of `radius` to pinch.
+class RecordingTarget implements GestureTarget {
+  calls: unknown[][] = [];
+  pinches = 0;
+
+  constructor(public radius?: number) {}
+
+  beginPinch() {
+    this.pinches++;
+    return this.radius;
+  }
+  beginScrollDrag() {
+    this.calls.push(["beginScrollDrag"]);
+  }
+  scrollDragBy(dx: number, dy: number) {
+    this.calls.push(["scrollDragBy", dx, dy]);
+  }
+  endScrollDrag() {
+    this.calls.push(["endScrollDrag"]);
+  }
+  push(dx: number, dy: number) {
+    this.calls.push(["push", dx, dy]);
+  }
+  resize(radius: number) {
+    this.calls.push(["resize", radius]);
+  }
+  spin(radians: number) {
+    this.calls.push(["spin", radians]);
+  }
+}
+
+function scroll(
+  phase: GesturePhase,
+  deltaX = 0,
+  deltaY = 0,
+  momentum = false
+): ScrollEvent {
+  return { phase, deltaX, deltaY, momentum, precise: true };
+}
+
+describe("GestureRecognizer", () => {
+  it("carries the momentum after a drag into the ball", () => {
+    const target = new RecordingTarget();
+    const gestures = new GestureRecognizer(target);
+
+    gestures.scroll(scroll("began"));
+    gestures.scroll(scroll("changed", 5, -2));
+    gestures.scroll(scroll("ended"));
+    gestures.scroll(scroll("began", 0, 0, true));
+    gestures.scroll(scroll("changed", 8, -3, true));
+    gestures.scroll(scroll("ended", 0, 0, true));
+
+    assert.deepEqual(target.calls, [
+      ["beginScrollDrag"],
+      ["scrollDragBy", 5, -2],
+      ["endScrollDrag"],
+      ["push", 8, -3],
+    ]);
+    assert.equal(gestures.state, "idle");
+  });
+
+  it("drops the momentum after a cancelled drag", () => {
+    const target = new RecordingTarget();
+    const gestures = new GestureRecognizer(target);
+
+    gestures.scroll(scroll("began"));
+    gestures.scroll(scroll("cancelled"));
+    gestures.scroll(scroll("began", 0, 0, true));
+    gestures.scroll(scroll("changed", 8, -3, true));
+
+    assert.deepEqual(target.calls, [["beginScrollDrag"], ["endScrollDrag"]]);
+    assert.equal(gestures.state, "idle");
+  });
+
+  it("clamps the pinched radius", () => {
+    const target = new RecordingTarget(100);
+    const gestures = new GestureRecognizer(target, {
+      minRadius: 60,
+      maxRadius: 150,
+    });
+
+    gestures.magnify({ phase: "began", magnification: 0 });
+    gestures.magnify({ phase: "changed", magnification: 1 });
+    gestures.magnify({ phase: "changed", magnification: -0.75 });
+    gestures.magnify({ phase: "changed", magnification: 0.5 });
+
+    assert.deepEqual(target.calls, [
+      ["resize", 100],
+      ["resize", 150],
+      ["resize", 60],
+      ["resize", 75],
+    ]);
+  });
+
+  it("keeps one pinch across interleaved magnify and rotate", () => {
+    const target = new RecordingTarget(100);
+    const gestures = new GestureRecognizer(target);
+
+    gestures.magnify({ phase: "began", magnification: 0 });
+    gestures.rotate({ phase: "began", rotation: 0 });
+    gestures.magnify({ phase: "changed", magnification: 0.5 });
+    gestures.rotate({ phase: "changed", rotation: 90 });
+    gestures.magnify({ phase: "ended", magnification: 0 });
+    assert.equal(gestures.state, "pinching");
+
+    // Still rotating after the magnify ended, but not resizing.
+    gestures.rotate({ phase: "changed", rotation: 90 });
+    gestures.magnify({ phase: "changed", magnification: 0.5 });
+    gestures.rotate({ phase: "ended", rotation: 0 });
+
+    assert.equal(target.pinches, 1);
+    assert.equal(gestures.state, "idle");
+    assert.deepEqual(target.calls, [
+      ["resize", 100],
+      ["spin", 0],
+      ["resize", 150],
+      ["spin", Math.PI / 2],
+      ["spin", Math.PI / 2],
+    ]);
+  });
+
+  it("starts afresh after a cancelled pinch", () => {
+    const target = new RecordingTarget(100);
+    const gestures = new GestureRecognizer(target);
+
+    gestures.magnify({ phase: "began", magnification: 0 });
+    gestures.magnify({ phase: "changed", magnification: 1 });
+    gestures.magnify({ phase: "cancelled", magnification: 0 });
+    assert.equal(gestures.state, "idle");
+    assert.equal(gestures.activePinchGestures.size, 0);
+
+    gestures.magnify({ phase: "began", magnification: 0 });
+    gestures.magnify({ phase: "changed", magnification: 0.25 });
+    assert.equal(target.pinches, 2);
+    assert.deepEqual(target.calls.at(-1), ["resize", 125]);
+  });
+
+  it("ignores a pinch with no ball under it", () => {
+    const target = new RecordingTarget();
+    const gestures = new GestureRecognizer(target);
+
+    gestures.magnify({ phase: "began", magnification: 0 });
+    gestures.magnify({ phase: "changed", magnification: 1 });
+    assert.equal(gestures.state, "idle");
+    assert.deepEqual(target.calls, []);
+  });
+});
@@ -0,0 +1,177 @@
+// Trackpad gestures as plain data, and the state machine that turns them into
+// ball movements. Nothing here touches AppKit, so gestures can be recorded,
+// replayed and synthesized.
+
+export type GesturePhase = "began" | "changed" | "ended" | "cancelled";
+
+export interface ScrollEvent {
+  phase: GesturePhase;
+  deltaX: number;
+  deltaY: number;
+  // Set for the inertial events macOS sends after the fingers lift.
+  momentum: boolean;
+  // False for mouse wheels, whose deltas are in lines rather than points.
+  precise: boolean;
+}
+
+export interface MagnifyEvent {
+  phase: GesturePhase;
+  // Change in scale since the previous event, e.g. 0.1 for 10% bigger.
+  magnification: number;
+}
+
+export interface RotateEvent {
+  phase: GesturePhase;
+  // Change in angle since the previous event, in degrees counterclockwise.
+  rotation: number;
+}
+
+// What gestures act on; `ViewController` in the app.
+export interface GestureTarget {
+  // Picks the ball a pinch acts on, returning its radius, or undefined when
+  // there is none.
+  beginPinch(): number | undefined;
+  beginScrollDrag(): void;
+  scrollDragBy(dx: number, dy: number): void;
+  endScrollDrag(): void;
+  push(dx: number, dy: number): void;
+  resize(radius: number): void;
+  spin(radians: number): void;
+}
+
+export type GestureState = "idle" | "scrolling" | "momentum" | "pinching";
+
+export interface GestureRecognizerOptions {
+  minRadius?: number;
+  maxRadius?: number;
+  // Points a mouse wheel moves per line.
+  lineHeight?: number;
+}
+
+export class GestureRecognizer {
+  state: GestureState = "idle";
+
+  // Whether the last scroll ended normally, so momentum may follow it.
+  scrollEnded = false;
+
+  pinchStartRadius = 0;
+  pinchScale = 1;
+  // Magnify and rotate arrive interleaved; the pinch lasts until both end.
+  activePinchGestures = new Set<"magnify" | "rotate">();
+
+  minRadius: number;
+  maxRadius: number;
+  lineHeight: number;
+
+  constructor(
+    public target: GestureTarget,
+    options: GestureRecognizerOptions = {}
+  ) {
+    this.minRadius = options.minRadius ?? 25;
+    this.maxRadius = options.maxRadius ?? 400;
+    this.lineHeight = options.lineHeight ?? 10;
+  }
+
+  scroll(event: ScrollEvent) {
+    if (!event.precise) {
+      if (this.state === "idle") {
+        this.target.push(
+          event.deltaX * this.lineHeight,
+          event.deltaY * this.lineHeight
+        );
+      }
+      return;
+    }
+
+    if (event.momentum) {
+      this.momentum(event);
+      return;
+    }
+
+    switch (event.phase) {
+      case "began":
+        if (this.state === "pinching") return;
+        this.state = "scrolling";
+        this.scrollEnded = false;
+        this.target.beginScrollDrag();
+        break;
+      case "changed":
+        if (this.state !== "scrolling") return;
+        this.target.scrollDragBy(event.deltaX, event.deltaY);
+        break;
+      case "ended":
+      case "cancelled":
+        if (this.state !== "scrolling") return;
+        this.state = "idle";
+        this.scrollEnded = event.phase === "ended";
+        this.target.endScrollDrag();
+        break;
+    }
+  }
+
+  momentum(event: ScrollEvent) {
+    switch (event.phase) {
+      case "began":
+        if (this.state !== "idle" || !this.scrollEnded) return;
+        this.state = "momentum";
+        this.scrollEnded = false;
+        break;
+      case "changed":
+        if (this.state !== "momentum") return;
+        this.target.push(event.deltaX, event.deltaY);
+        break;
+      case "ended":
+      case "cancelled":
+        if (this.state === "momentum") this.state = "idle";
+        break;
+    }
+  }
+
+  magnify(event: MagnifyEvent) {
+    if (!this.pinch("magnify", event.phase)) return;
+
+    this.pinchScale *= 1 + event.magnification;
+    const radius = Math.min(
+      Math.max(this.pinchStartRadius * this.pinchScale, this.minRadius),
+      this.maxRadius
+    );
+    this.target.resize(radius);
+  }
+
+  rotate(event: RotateEvent) {
+    if (!this.pinch("rotate", event.phase)) return;
+
+    this.target.spin((event.rotation * Math.PI) / 180);
+  }
+
+  // Tracks the two-finger gestures, returning whether `phase` should be
+  // applied.
+  pinch(gesture: "magnify" | "rotate", phase: GesturePhase) {
+    switch (phase) {
+      case "began": {
+        if (this.state === "scrolling") return false;
+
+        if (this.state !== "pinching") {
+          const radius = this.target.beginPinch();
+          if (radius === undefined) return false;
+
+          this.state = "pinching";
+          this.pinchStartRadius = radius;
+          this.pinchScale = 1;
+        }
+
+        this.activePinchGestures.add(gesture);
+        return true;
+      }
+      case "changed":
+        return (
+          this.state === "pinching" && this.activePinchGestures.has(gesture)
+        );
+      case "ended":
+      case "cancelled":
+        if (!this.activePinchGestures.delete(gesture)) return false;
+        if (this.activePinchGestures.size === 0) this.state = "idle";
+        return false;
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import { DockEdge } from "./dock_geometry.js";
+import {
+  SpringAnimation,
+  SpringAnimationOptions,
+  SpringParams,
+  VectorSpringAnimation,
+} from "./motion.js";
+import { PhysicsBody, POINTS_PER_METER } from "./physics.js";
+
+// World modes: which way things fall, how hard, and whether the cursor pulls
+// or pushes. Switching modes springs each setting over to its new value, so
+// balls ease into the new world rather than jerking.
+
+export const GRAVITY_MODES = [
+  "normal",
+  // Floating, with just enough drag that balls drift to a stop.
+  "zeroG",
+  "moon",
+  // Falling towards whichever edge of the main display the Dock is on.
+  "dock",
+  "attract",
+  "repel",
+] as const;
+
+export type GravityMode = (typeof GRAVITY_MODES)[number];
+
+const EARTH_GRAVITY = 9.8;
+const MOON_GRAVITY = 1.62;
+
+// Pull of the cursor in `attract` and `repel`, in m/s², at its strongest
+// `CURSOR_FIELD_RADIUS` points away. It fades out towards the cursor, so a
+// ball settles there instead of jittering across it, and far from it.
+const CURSOR_PULL = 20;
+const CURSOR_FIELD_RADIUS = 300;
+
+export interface GravitySettings {
+  // Uniform gravity, in m/s².
+  gravity: CGVector;
+  // Strongest acceleration towards the cursor, negative to push away.
+  pull: number;
+  // Linear damping for the balls, see `PhysicsBody.linearDamping`.
+  damping: number;
+}
+
+export function gravitySettings(
+  mode: GravityMode,
+  dockEdge: DockEdge = "bottom"
+): GravitySettings {
+  const none = { dx: 0, dy: 0 };
+  switch (mode) {
+    case "normal":
+      return { gravity: { dx: 0, dy: -EARTH_GRAVITY }, pull: 0, damping: 0 };
+    case "zeroG":
+      return { gravity: none, pull: 0, damping: 0.1 };
+    case "moon":
+      return { gravity: { dx: 0, dy: -MOON_GRAVITY }, pull: 0, damping: 0 };
+    case "dock": {
+      const gravity = {
+        bottom: { dx: 0, dy: -EARTH_GRAVITY },
+        left: { dx: -EARTH_GRAVITY, dy: 0 },
+        right: { dx: EARTH_GRAVITY, dy: 0 },
+      }[dockEdge];
+      return { gravity, pull: 0, damping: 0 };
+    }
+    case "attract":
+      return { gravity: none, pull: CURSOR_PULL, damping: 0.8 };
+    case "repel":
+      return { gravity: none, pull: -CURSOR_PULL, damping: 0.8 };
+  }
+}
+
+// Acceleration from a cursor pulling with `pull`, for something at `point`.
+export function cursorPull(pull: number, cursor: CGPoint, point: CGPoint) {
+  const dx = cursor.x - point.x;
+  const dy = cursor.y - point.y;
+  const distance = Math.hypot(dx, dy);
+  if (pull === 0 || distance === 0) return { dx: 0, dy: 0 };
+
+  const radius = CURSOR_FIELD_RADIUS;
+  const strength =
+    (pull * 2 * radius * distance) / (radius * radius + distance * distance);
+  return { dx: (dx / distance) * strength, dy: (dy / distance) * strength };
+}
+
+export class GravityField {
+  static transition = new SpringParams(0.6, 1);
+
+  mode: GravityMode = "normal";
+  // The edge `dock` mode falls towards.
+  dockEdge: DockEdge = "bottom";
+  // Where the cursor is, in the same coordinates as the bodies.
+  cursor?: CGPoint;
+
+  gravity: VectorSpringAnimation;
+  pull: SpringAnimation;
+  damping: SpringAnimation;
+
+  constructor(options: SpringAnimationOptions = {}) {
+    const settings = gravitySettings(this.mode, this.dockEdge);
+    const params = GravityField.transition;
+    this.gravity = new VectorSpringAnimation(
+      [settings.gravity.dx, settings.gravity.dy],
+      POINTS_PER_METER,
+      params,
+      options
+    );
+    this.pull = new SpringAnimation(
+      settings.pull,
+      POINTS_PER_METER,
+      params,
+      options
+    );
+    // Damping is a fraction, so settle it to a thousandth.
+    this.damping = new SpringAnimation(settings.damping, 10, params, options);
+  }
+
+  setMode(mode: GravityMode, dockEdge: DockEdge = "bottom", animated = true) {
+    this.mode = mode;
+    this.dockEdge = dockEdge;
+    const { gravity, pull, damping } = gravitySettings(mode, dockEdge);
+
+    if (animated) {
+      this.gravity.start([gravity.dx, gravity.dy]);
+      this.pull.start(pull);
+      this.damping.start(damping);
+    } else {
+      this.settings = { gravity, pull, damping };
+    }
+  }
+
+  // The settings right now, part way between modes during a transition.
+  // Setting them stops any transition.
+  get settings(): GravitySettings {
+    return {
+      gravity: this.currentGravity,
+      pull: this.pull.value,
+      damping: this.damping.value,
+    };
+  }
+
+  set settings({ gravity, pull, damping }) {
+    this.gravity.value = [gravity.dx, gravity.dy];
+    this.pull.value = pull;
+    this.damping.value = damping;
+  }
+
+  get currentGravity(): CGVector {
+    const [dx, dy] = this.gravity.value;
+    return { dx, dy };
+  }
+
+  // For `PhysicsWorld.field`.
+  acceleration(body: PhysicsBody): CGVector {
+    if (!this.cursor) return { dx: 0, dy: 0 };
+    return cursorPull(this.pull.value, this.cursor, body.position);
+  }
+}
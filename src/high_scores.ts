@@ -0,0 +1,115 @@
+import fs from "node:fs";
+import path from "node:path";
+import { defaultConfigDirectory } from "./config.js";
+
+// The best mini-game rounds, best first, kept next to the config.
+export const HIGH_SCORES_VERSION = 1;
+export const MAX_HIGH_SCORES = 10;
+
+export interface HighScore {
+  score: number;
+  // ISO 8601.
+  date: string;
+}
+
+export interface HighScores {
+  version: number;
+  scores: HighScore[];
+}
+
+export class HighScoresError extends Error {
+  constructor(public filePath: string, message: string) {
+    super(`Invalid high scores file ${filePath}: ${message}`);
+    this.name = "HighScoresError";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isHighScore(value: unknown): value is HighScore {
+  return (
+    isObject(value) &&
+    typeof value.score === "number" &&
+    Number.isFinite(value.score) &&
+    typeof value.date === "string"
+  );
+}
+
+export function parseHighScores(filePath: string, input: unknown): HighScores {
+  const fail = (message: string): never => {
+    throw new HighScoresError(filePath, message);
+  };
+
+  if (!isObject(input)) return fail("expected an object");
+  if (input.version !== HIGH_SCORES_VERSION) {
+    fail(`unsupported version ${JSON.stringify(input.version)}`);
+  }
+  if (!Array.isArray(input.scores) || !input.scores.every(isHighScore)) {
+    fail(`"scores" must be a list of scores`);
+  }
+
+  return input as unknown as HighScores;
+}
+
+// Adds `entry` to `scores` if it makes the table, returning its 0-based rank
+// or -1 when it doesn't.
+export function addHighScore(scores: HighScore[], entry: HighScore) {
+  const rank = scores.findIndex((score) => entry.score > score.score);
+  const index = rank === -1 ? scores.length : rank;
+  if (index >= MAX_HIGH_SCORES) return -1;
+
+  scores.splice(index, 0, entry);
+  scores.length = Math.min(scores.length, MAX_HIGH_SCORES);
+  return index;
+}
+
+export function defaultHighScoresPath() {
+  return path.join(defaultConfigDirectory(), "high_scores.json");
+}
+
+export class HighScoreStore {
+  constructor(public filePath = defaultHighScoresPath()) {}
+
+  // Empty when nothing has been saved yet; throws a HighScoresError when the
+  // file can't be used.
+  load(): HighScore[] {
+    if (!fs.existsSync(this.filePath)) return [];
+
+    let input: unknown;
+    try {
+      input = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+    } catch (error) {
+      throw new HighScoresError(this.filePath, (error as Error).message);
+    }
+
+    return parseHighScores(this.filePath, input).scores;
+  }
+
+  // Written like the state file, through a temporary file.
+  save(scores: HighScore[]) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const highScores: HighScores = { version: HIGH_SCORES_VERSION, scores };
+    const temporary = `${this.filePath}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(highScores, null, 2) + "\n");
+    fs.renameSync(temporary, this.filePath);
+  }
+
+  // Records a finished round, returning its rank as `addHighScore` does.
+  // A corrupt file is replaced rather than blocking new scores.
+  record(score: number, date = new Date()) {
+    let scores: HighScore[];
+    try {
+      scores = this.load();
+    } catch (error) {
+      console.error(`${error}. Starting a new high score table.`);
+      scores = [];
+    }
+
+    const rank = addHighScore(scores, { score, date: date.toISOString() });
+    if (rank !== -1) this.save(scores);
+    return rank;
+  }
+}
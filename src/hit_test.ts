@@ -0,0 +1,50 @@
+// Hit testing against the ball's visible circle, rather than the square
+// around it.
+
+export interface HitCircle {
+  center: CGPoint;
+  radius: number;
+}
+
+export function circleContainsPoint(circle: HitCircle, point: CGPoint) {
+  return (
+    Math.hypot(point.x - circle.center.x, point.y - circle.center.y) <=
+    circle.radius
+  );
+}
+
+// The smallest rect holding `circle`, unrounded, so a window with this frame
+// lines up with the ball exactly.
+export function circleBounds(circle: HitCircle): CGRect {
+  const { center, radius } = circle;
+  return {
+    origin: { x: center.x - radius, y: center.y - radius },
+    size: { width: radius * 2, height: radius * 2 },
+  };
+}
+
+// The circle inscribed in `rect`, e.g. a catcher view's bounds.
+export function inscribedCircle(rect: CGRect): HitCircle {
+  return {
+    center: {
+      x: rect.origin.x + rect.size.width / 2,
+      y: rect.origin.y + rect.size.height / 2,
+    },
+    radius: Math.min(rect.size.width, rect.size.height) / 2,
+  };
+}
+
+// Maps a circle through a conversion between coordinate spaces, such as
+// scene to screen. The conversion may scale but shouldn't skew.
+export function convertCircle(
+  circle: HitCircle,
+  convert: (point: CGPoint) => CGPoint
+): HitCircle {
+  const { center, radius } = circle;
+  const converted = convert(center);
+  const edge = convert({ x: center.x + radius, y: center.y });
+  return {
+    center: converted,
+    radius: Math.hypot(edge.x - converted.x, edge.y - converted.y),
+  };
+}
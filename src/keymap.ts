@@ -0,0 +1,194 @@
+import fs from "node:fs";
+import path from "node:path";
+import { defaultConfigDirectory } from "./config.js";
+import { KeyModifiers } from "./platform.js";
+
+// Keyboard bindings, read from `~/.config/nsball/keymap.json`:
+//
+//   {
+//     "nudgeLeft": ["left", "a"],
+//     "hop": "space",
+//     "toggle": "control+option+b"
+//   }
+//
+// A chord is a key name with any of `command`, `control`, `option` and
+// `shift` in front, joined with `+`. Actions left out keep their default
+// bindings, and `[]` unbinds one.
+
+export type KeyAction =
+  | "nudgeLeft"
+  | "nudgeRight"
+  | "nudgeUp"
+  | "nudgeDown"
+  | "hop"
+  | "dock"
+  | "launch"
+  | "toggle";
+
+export type Keymap = Record<KeyAction, string[]>;
+
+export const DEFAULT_KEYMAP: Keymap = {
+  nudgeLeft: ["left"],
+  nudgeRight: ["right"],
+  nudgeUp: ["up"],
+  nudgeDown: ["down"],
+  hop: ["space"],
+  dock: ["escape"],
+  launch: ["l"],
+  toggle: ["control+option+b"],
+};
+
+// Actions that work while another app is active. The rest only act on key
+// presses NSBall itself receives.
+export const GLOBAL_ACTIONS: KeyAction[] = ["toggle"];
+
+export const KEY_NAMES = [
+  "left",
+  "right",
+  "up",
+  "down",
+  "space",
+  "escape",
+  "return",
+  "tab",
+  "delete",
+];
+
+const MODIFIERS: (keyof KeyModifiers)[] = [
+  "command",
+  "control",
+  "option",
+  "shift",
+];
+
+export interface KeyChord {
+  key: string;
+  modifiers: KeyModifiers;
+}
+
+export class KeymapError extends Error {
+  constructor(public key: string, message: string) {
+    super(`Invalid keymap entry "${key}": ${message}`);
+    this.name = "KeymapError";
+  }
+}
+
+export function parseChord(text: string): KeyChord {
+  const parts = text.toLowerCase().split("+");
+  const key = parts.pop() ?? "";
+  if (!KEY_NAMES.includes(key) && !/^[a-z0-9]$/.test(key)) {
+    throw new KeymapError(
+      text,
+      `unknown key "${key}", expected a letter, a digit or one of ${KEY_NAMES.join(
+        ", "
+      )}`
+    );
+  }
+
+  const modifiers: KeyModifiers = {
+    shift: false,
+    control: false,
+    option: false,
+    command: false,
+  };
+  for (const part of parts) {
+    if (!MODIFIERS.includes(part as keyof KeyModifiers)) {
+      throw new KeymapError(
+        text,
+        `unknown modifier "${part}", expected one of ${MODIFIERS.join(", ")}`
+      );
+    }
+    modifiers[part as keyof KeyModifiers] = true;
+  }
+
+  return { key, modifiers };
+}
+
+// The canonical spelling of a chord, with modifiers in a fixed order.
+export function formatChord(chord: KeyChord) {
+  return [...MODIFIERS.filter((m) => chord.modifiers[m]), chord.key].join("+");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Layers `input` over the defaults, throwing a `KeymapError` for unknown
+// actions, bad chords and chords bound to more than one action.
+export function parseKeymap(input: unknown): Keymap {
+  if (!isObject(input)) throw new KeymapError("(root)", "expected an object");
+
+  const keymap: Keymap = { ...DEFAULT_KEYMAP };
+  for (const [action, value] of Object.entries(input)) {
+    if (!(action in DEFAULT_KEYMAP)) {
+      throw new KeymapError(
+        action,
+        `unknown action, expected one of ${Object.keys(DEFAULT_KEYMAP).join(
+          ", "
+        )}`
+      );
+    }
+
+    const chords = typeof value === "string" ? [value] : value;
+    if (
+      !Array.isArray(chords) ||
+      !chords.every((chord) => typeof chord === "string")
+    ) {
+      throw new KeymapError(action, "expected a chord or a list of chords");
+    }
+    keymap[action as KeyAction] = chords;
+  }
+
+  const owners = new Map<string, KeyAction>();
+  for (const [action, chords] of Object.entries(keymap)) {
+    for (const chord of chords) {
+      const name = formatChord(parseChord(chord));
+      const owner = owners.get(name);
+      if (owner && owner !== action) {
+        throw new KeymapError(
+          action,
+          `"${name}" is already bound to "${owner}"`
+        );
+      }
+      owners.set(name, action as KeyAction);
+    }
+  }
+
+  return keymap;
+}
+
+// Looks up key presses in a keymap.
+export class KeyBindings {
+  actions = new Map<string, KeyAction>();
+
+  constructor(public keymap: Keymap = DEFAULT_KEYMAP) {
+    for (const [action, chords] of Object.entries(keymap)) {
+      for (const chord of chords) {
+        this.actions.set(formatChord(parseChord(chord)), action as KeyAction);
+      }
+    }
+  }
+
+  static fromFile(filePath = defaultKeymapPath()) {
+    if (!fs.existsSync(filePath)) return new KeyBindings();
+
+    let input: unknown;
+    try {
+      input = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } catch (error) {
+      throw new KeymapError(
+        "(root)",
+        `${filePath} is not valid JSON: ${(error as Error).message}`
+      );
+    }
+    return new KeyBindings(parseKeymap(input));
+  }
+
+  action(chord: KeyChord): KeyAction | undefined {
+    return this.actions.get(formatChord(chord));
+  }
+}
+
+export function defaultKeymapPath() {
+  return path.join(defaultConfigDirectory(), "keymap.json");
+}
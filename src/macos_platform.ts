@@ -0,0 +1,331 @@
+import "@nativescript/macos-node-api";
+import {
+  DockPreferences,
+  DockTileContent,
+  Platform,
+  PlatformDock,
+  PlatformDockTile,
+  KeyModifiers,
+  KeyPress,
+  PlatformKeyboard,
+  PlatformMouse,
+  PlatformScreens,
+  PlatformSound,
+  PlatformSounds,
+  PlatformTimers,
+  PlatformWindow,
+  PlatformWindowList,
+  WindowInfo,
+} from "./platform.js";
+
+export class MacOSWindow implements PlatformWindow {
+  constructor(public window: NSWindow) {}
+
+  get frame() {
+    return this.window.frame;
+  }
+
+  get screen() {
+    return this.window.screen ?? undefined;
+  }
+
+  get isVisible() {
+    return this.window.isVisible;
+  }
+
+  set isVisible(value) {
+    this.window.setIsVisible(value);
+  }
+
+  setFrame(frame: CGRect, display = false) {
+    this.window.setFrameDisplay(frame, display);
+  }
+}
+
+export class MacOSScreens implements PlatformScreens {
+  get all(): NSScreen[] {
+    return Array.from(NSScreen.screens);
+  }
+
+  get main() {
+    return NSScreen.mainScreen ?? undefined;
+  }
+}
+
+export class MacOSMouse implements PlatformMouse {
+  get location() {
+    return NSEvent.mouseLocation;
+  }
+}
+
+// Names for keys that don't type a character, by virtual key code.
+const KEY_CODE_NAMES: Record<number, string> = {
+  36: "return",
+  48: "tab",
+  49: "space",
+  51: "delete",
+  53: "escape",
+  123: "left",
+  124: "right",
+  125: "down",
+  126: "up",
+};
+
+function modifiersFromFlags(flags: number): KeyModifiers {
+  return {
+    shift: (flags & NSEventModifierFlags.Shift) !== 0,
+    control: (flags & NSEventModifierFlags.Control) !== 0,
+    option: (flags & NSEventModifierFlags.Option) !== 0,
+    command: (flags & NSEventModifierFlags.Command) !== 0,
+  };
+}
+
+function keyPressFromEvent(event: NSEvent): KeyPress {
+  return {
+    key:
+      KEY_CODE_NAMES[event.keyCode] ??
+      event.charactersIgnoringModifiers.toLowerCase(),
+    modifiers: modifiersFromFlags(event.modifierFlags),
+    isRepeat: event.isARepeat,
+  };
+}
+
+export class MacOSKeyboard implements PlatformKeyboard {
+  get modifiers() {
+    return modifiersFromFlags(NSEvent.modifierFlags);
+  }
+
+  monitorLocal(handler: (press: KeyPress) => boolean) {
+    const monitor = NSEvent.addLocalMonitorForEventsMatchingMaskHandler(
+      NSEventMask.KeyDown,
+      (event) => (handler(keyPressFromEvent(event)) ? null : event)
+    );
+    return () => NSEvent.removeMonitor(monitor);
+  }
+
+  monitorGlobal(handler: (press: KeyPress) => void) {
+    const monitor = NSEvent.addGlobalMonitorForEventsMatchingMaskHandler(
+      NSEventMask.KeyDown,
+      (event) => handler(keyPressFromEvent(event))
+    );
+    return () => NSEvent.removeMonitor(monitor);
+  }
+}
+
+export class MacOSWindowList implements PlatformWindowList {
+  get windows() {
+    const list = CGWindowListCopyWindowInfo(
+      CGWindowListOption.OptionOnScreenOnly |
+        CGWindowListOption.ExcludeDesktopElements,
+      0
+    );
+
+    // The window server puts the origin at the top left of the primary
+    // screen, with y going down.
+    const primaryHeight = NSScreen.screens.firstObject?.frame.size.height ?? 0;
+
+    const readInt = (info: interop.Pointer, key: interop.Pointer) => {
+      const value = new Int32Array(1);
+      CFNumberGetValue(
+        CFDictionaryGetValue(info, key),
+        CFNumberType.SInt32,
+        value
+      );
+      return value[0];
+    };
+
+    const windows: WindowInfo[] = [];
+    for (let i = 0; i < CFArrayGetCount(list); i++) {
+      const info = CFArrayGetValueAtIndex(list, i);
+
+      const bounds = new Float64Array(4);
+      CGRectMakeWithDictionaryRepresentation(
+        CFDictionaryGetValue(info, kCGWindowBounds),
+        bounds
+      );
+      const [x, y, width, height] = bounds;
+
+      windows.push({
+        frame: {
+          origin: { x, y: primaryHeight - y - height },
+          size: { width, height },
+        },
+        ownerPID: readInt(info, kCGWindowOwnerPID),
+        layer: readInt(info, kCGWindowLayer),
+      });
+    }
+
+    CFRelease(list);
+    return windows;
+  }
+}
+
+export class MacOSDock implements PlatformDock {
+  defaults = NSUserDefaults.alloc().initWithSuiteName("com.apple.dock");
+
+  // Read every time, since the Dock can be reconfigured while we run.
+  get preferences(): DockPreferences {
+    const defaults = this.defaults;
+    const orientation = defaults.stringForKey("orientation");
+
+    return {
+      orientation:
+        orientation === "left" || orientation === "right"
+          ? orientation
+          : orientation === "bottom"
+          ? "bottom"
+          : undefined,
+      tileSize: defaults.doubleForKey("tilesize") || undefined,
+      autohide: defaults.boolForKey("autohide"),
+      magnification: defaults.boolForKey("magnification"),
+      largeSize: defaults.doubleForKey("largesize") || undefined,
+    };
+  }
+}
+
+export class MacOSDockTile implements PlatformDockTile {
+  ballImageView = NSImageView.new();
+  putBackImageView = NSImageView.new();
+
+  setImages(ball: string, putBack: string) {
+    const ballImage = NSImage.alloc().initWithContentsOfFile(ball);
+    this.ballImageView.image = ballImage;
+    this.putBackImageView.image =
+      NSImage.alloc().initWithContentsOfFile(putBack);
+
+    NSApp.applicationIconImage = ballImage;
+    NSApp.dockTile.display();
+  }
+
+  _content: DockTileContent = "ball";
+
+  get content() {
+    return this._content;
+  }
+
+  set content(value) {
+    this._content = value;
+
+    NSApp.dockTile.contentView =
+      value === "putBack" ? this.putBackImageView : this.ballImageView;
+    NSApp.dockTile.display();
+  }
+}
+
+// Played through AVAudioPlayer, which unlike NSSound can change the
+// playback rate.
+export class MacOSSound implements PlatformSound {
+  constructor(public player: AVAudioPlayer) {
+    player.enableRate = true;
+    player.prepareToPlay();
+  }
+
+  get volume() {
+    return this.player.volume;
+  }
+
+  set volume(value) {
+    this.player.volume = value;
+  }
+
+  get rate() {
+    return this.player.rate;
+  }
+
+  set rate(value) {
+    this.player.rate = value;
+  }
+
+  get isPlaying() {
+    return this.player.playing;
+  }
+
+  play() {
+    this.player.currentTime = 0;
+    this.player.play();
+  }
+
+  stop() {
+    this.player.stop();
+  }
+}
+
+// For when the runtime has no AVAudioPlayer. NSSound has no playback rate,
+// so `rate` is accepted but not heard.
+export class MacOSNSSound implements PlatformSound {
+  rate = 1;
+
+  constructor(public sound: NSSound) {}
+
+  get volume() {
+    return this.sound.volume;
+  }
+
+  set volume(value) {
+    this.sound.volume = value;
+  }
+
+  get isPlaying() {
+    return this.sound.isPlaying;
+  }
+
+  play() {
+    this.sound.play();
+  }
+
+  stop() {
+    this.sound.stop();
+  }
+}
+
+export class MacOSSounds implements PlatformSounds {
+  // An NSSound plays one instance at a time, so every load gets its own copy
+  // of the file's first sound.
+  loaded = new Map<string, NSSound>();
+
+  load(path: string): PlatformSound {
+    if (typeof AVAudioPlayer !== "undefined") {
+      const url = NSURL.fileURLWithPath(path);
+      return new MacOSSound(
+        AVAudioPlayer.alloc().initWithContentsOfURLError(url, null)
+      );
+    }
+
+    const loaded = this.loaded.get(path);
+    if (loaded) {
+      return new MacOSNSSound(loaded.copy() as NSSound);
+    }
+
+    const sound = NSSound.alloc().initWithContentsOfFileByReference(path, true);
+    this.loaded.set(path, sound);
+    return new MacOSNSSound(sound);
+  }
+}
+
+export class MacOSTimers implements PlatformTimers {
+  now() {
+    return CACurrentMediaTime();
+  }
+
+  schedule(seconds: number, callback: () => void, repeats = false) {
+    const timer = NSTimer.scheduledTimerWithTimeIntervalRepeatsBlock(
+      seconds,
+      repeats,
+      () => callback()
+    );
+    return () => timer.invalidate();
+  }
+}
+
+export class MacOSPlatform implements Platform {
+  static instance = new MacOSPlatform();
+
+  screens = new MacOSScreens();
+  mouse = new MacOSMouse();
+  keyboard = new MacOSKeyboard();
+  windowList = new MacOSWindowList();
+  dock = new MacOSDock();
+  dockTile = new MacOSDockTile();
+  sounds = new MacOSSounds();
+  timers = new MacOSTimers();
+}
@@ -3,6 +3,10 @@ import "@nativescript/macos-node-api";
 objc.import("AppKit");
 
 import { AppDelegate } from "./app_delegate.js";
+import { CALayerDriver } from "./ca_layer_driver.js";
+import { SpringAnimation } from "./motion.js";
+
+SpringAnimation.defaultDriver = CALayerDriver.driver;
 
 const NSApp = NSApplication.sharedApplication;
 
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ManualDriver,
+  SpringAnimation,
+  SpringParams,
+  VectorSpringAnimation,
+} from "./motion.js";
+
+function spring(driver: ManualDriver, initialValue = 0) {
+  return new SpringAnimation(initialValue, 1, new SpringParams(0.3, 0.7), {
+    driver: driver.driver,
+    clock: driver.clock,
+  });
+}
+
+describe("SpringAnimation", () => {
+  it("settles on its target and completes once", () => {
+    const driver = new ManualDriver();
+    const animation = spring(driver);
+    let completions = 0;
+    animation.onComplete = () => completions++;
+
+    animation.start(100);
+    assert.ok(driver.running);
+    driver.advance(50);
+    assert.ok(animation.value > 0 && animation.value < 100);
+
+    driver.advanceUntilIdle();
+    assert.equal(animation.value, 100);
+    assert.equal(animation.animating, false);
+    assert.equal(driver.running, false);
+    assert.equal(completions, 1);
+
+    driver.advance(1000);
+    assert.equal(completions, 1);
+  });
+
+  it("completes at once when already at its target", () => {
+    const driver = new ManualDriver();
+    const animation = spring(driver, 100);
+    let completions = 0;
+    animation.onComplete = () => completions++;
+
+    animation.start(100, 0);
+    assert.equal(driver.running, false);
+    assert.equal(completions, 1);
+  });
+
+  it("keeps its value and velocity when retargeted mid-flight", () => {
+    const driver = new ManualDriver();
+    const animation = spring(driver);
+
+    animation.start(100);
+    driver.advance(100);
+    const { value, velocity } = animation;
+
+    animation.start(-50);
+    assert.equal(animation.value, value);
+    assert.ok(Math.abs(animation.velocity - velocity) < 1e-9);
+
+    driver.advanceUntilIdle();
+    assert.equal(animation.value, -50);
+  });
+
+  it("uses an explicit velocity over the running one", () => {
+    const driver = new ManualDriver();
+    const animation = spring(driver);
+
+    animation.start(100);
+    driver.advance(100);
+    animation.start(100, 0);
+    assert.equal(animation.velocity, 0);
+  });
+});
+
+describe("VectorSpringAnimation", () => {
+  it("completes once every component has settled", () => {
+    const driver = new ManualDriver();
+    const animation = new VectorSpringAnimation([0, 0], 1, undefined, {
+      driver: driver.driver,
+      clock: driver.clock,
+    });
+    let completions = 0;
+    animation.onComplete = () => completions++;
+
+    animation.start([10, 200]);
+    driver.advanceUntilIdle();
+    assert.deepEqual(animation.value, [10, 200]);
+    assert.equal(completions, 1);
+  });
+});
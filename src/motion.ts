@@ -1,86 +1,60 @@
-import "@nativescript/macos-node-api";
-import { animate, Driver } from "popmotion";
-
-export class CALayerDriver extends NSObject {
-  static ObjCExposedMethods = {
-    tick: { returns: interop.types.void, params: [] },
-  };
-
-  static {
-    NativeClass(this);
-  }
-
-  displayLink?: CADisplayLink;
-  tickers = new Set<(timestamp: number) => void>();
-  prevTick?: number;
-
-  tick() {
-    if (!this.displayLink) {
-      throw new Error("Display link is not initialized and tick was called");
-    }
-
-    const timestamp = performance.now();
-    const delta = this.prevTick ? timestamp - this.prevTick : 0;
-    this.prevTick = timestamp;
-
-    for (const ticker of this.tickers) {
-      ticker(delta);
-    }
-  }
-
-  static instance = CALayerDriver.new();
-
-  static driver: Driver = (update) => {
+import { Clock, ManualClock, systemClock } from "./clock.js";
+import { SpringSolver } from "./spring_solver.js";
+import { VelocityTracker } from "./velocity_tracker.js";
+
+// Calls `update` with the milliseconds elapsed since the previous frame while
+// started.
+export type Driver = (update: (delta: number) => void) => {
+  start: () => void;
+  stop: () => void;
+};
+
+// Advances animations only when asked to, for stepping springs frame by frame
+// without a display.
+export class ManualDriver {
+  tickers = new Set<(delta: number) => void>();
+  clock = new ManualClock();
+
+  constructor(public frameInterval = 1000 / 120) {}
+
+  driver: Driver = (update) => {
     return {
       start: () => {
-        this.instance.tickers.add(update);
-
-        if (this.instance.tickers.size === 1) {
-          this.start();
-        }
+        this.tickers.add(update);
       },
 
       stop: () => {
-        if (!this.instance.tickers.delete(update)) {
-          return;
-        }
-
-        if (this.instance.tickers.size === 0) {
-          this.stop();
-        }
+        this.tickers.delete(update);
       },
     };
   };
 
-  static start() {
-    if (this.instance.displayLink) {
-      return;
-    }
-
-    this.instance.displayLink =
-      NSScreen.mainScreen.displayLinkWithTargetSelector(this.instance, "tick");
+  get running() {
+    return this.tickers.size > 0;
+  }
 
-    this.instance.displayLink.addToRunLoopForMode(
-      NSRunLoop.currentRunLoop,
-      NSDefaultRunLoopMode
-    );
+  advance(milliseconds: number) {
+    let remaining = milliseconds;
+    while (remaining > 0) {
+      const delta = Math.min(this.frameInterval, remaining);
+      remaining -= delta;
+      this.clock.advance(delta / 1000);
 
-    this.instance.displayLink.preferredFrameRateRange = {
-      minimum: 90,
-      maximum: 120,
-      preferred: 120,
-    };
-
-    this.instance.prevTick = performance.now();
+      for (const ticker of [...this.tickers]) {
+        ticker(delta);
+      }
+    }
   }
 
-  static stop() {
-    if (!this.instance.displayLink) {
-      return;
+  // Advances until every animation has settled or `maxMilliseconds` passed,
+  // returning the time it took.
+  advanceUntilIdle(maxMilliseconds = 10000) {
+    let elapsed = 0;
+    while (this.running && elapsed < maxMilliseconds) {
+      this.advance(this.frameInterval);
+      elapsed += this.frameInterval;
     }
-
-    this.instance.displayLink.invalidate();
-    this.instance.displayLink = undefined;
+    return elapsed;
   }
 }
 
@@ -94,51 +68,26 @@ export class SpringParams {
   ) {}
 }
 
-export interface Sample {
-  time: number;
-  value: number;
-}
-
-export class VelocityTracker {
-  samples: Sample[] = [];
-
-  addSample(val: number) {
-    this.samples.push({ time: CACurrentMediaTime(), value: val });
-    this.trim();
-  }
-
-  get velocity() {
-    this.trim();
-    if (this.samples[0] && this.samples[this.samples.length - 1]) {
-      const timeDelta = CACurrentMediaTime() - this.samples[0].time;
-      const distDelta =
-        this.samples[this.samples.length - 1].value - this.samples[0].value;
-      if (timeDelta > 0) {
-        return distDelta / timeDelta;
-      }
-    }
-    return 0;
-  }
-
-  lookBack = 1.0 / 15;
-
-  trim() {
-    const now = CACurrentMediaTime();
-    while (
-      this.samples.length > 0 &&
-      now - this.samples[0].time > this.lookBack
-    ) {
-      this.samples.shift();
-    }
-  }
+export interface SpringAnimationOptions {
+  driver?: Driver;
+  clock?: Clock;
 }
 
 export class SpringAnimation {
+  // Set once at startup to whatever drives frames on the host, e.g. the
+  // display link.
+  static defaultDriver?: Driver;
+  static defaultClock: Clock = systemClock;
+
   animating = false;
 
-  externallySetVelocityTracker = new VelocityTracker();
+  driver?: Driver;
+  clock: Clock;
+
+  externallySetVelocityTracker: VelocityTracker;
 
   onChange?: (value: number) => void;
+  onComplete?: () => void;
 
   _value = 0;
 
@@ -149,62 +98,181 @@ export class SpringAnimation {
   set value(value) {
     this._value = value;
     this.stop();
-    this.externallySetVelocityTracker.addSample(value);
+    this.externallySetVelocityTracker.add([value]);
   }
 
   targetValue?: number;
-  _velocity?: number;
+
+  solver?: SpringSolver;
+  elapsed = 0;
+  settleDuration = 0;
 
   stopFunction?: () => void;
 
   get velocity() {
-    return this.animating
-      ? this._velocity ?? 0
-      : this.externallySetVelocityTracker.velocity;
+    return this.animating && this.solver
+      ? this.solver.velocity(this.elapsed)
+      : this.externallySetVelocityTracker.velocity[0];
+  }
+
+  // Seconds until the running animation settles.
+  get remainingTime() {
+    return this.animating ? Math.max(this.settleDuration - this.elapsed, 0) : 0;
   }
 
   constructor(
     initialValue: number,
     public scale: number,
-    public params: SpringParams = SpringParams.passiveEase
+    public params: SpringParams = SpringParams.passiveEase,
+    options: SpringAnimationOptions = {}
   ) {
+    this.driver = options.driver;
+    this.clock = options.clock ?? SpringAnimation.defaultClock;
+
+    this.externallySetVelocityTracker = new VelocityTracker(1, {
+      window: 1 / 15,
+      clock: () => this.clock.now(),
+    });
+
     this.value = initialValue;
   }
 
-  start(targetValue: number, velocity: number) {
+  // Without an explicit velocity, a running spring carries on from where it
+  // is, so retargeting mid-flight doesn't cause a kink.
+  start(targetValue: number, velocity?: number) {
+    const driver = this.driver ?? SpringAnimation.defaultDriver;
+    if (!driver) {
+      throw new Error("No driver was set to run the spring animation with");
+    }
+
+    const running = this.animating ? this.solver : undefined;
+    const solver =
+      velocity === undefined &&
+      running?.response === this.params.response &&
+      running.dampingRatio === this.params.dampingRatio
+        ? running.retargeted(this.elapsed, targetValue)
+        : new SpringSolver(
+            this.params.response,
+            this.params.dampingRatio,
+            this.value,
+            targetValue,
+            velocity ?? this.velocity
+          );
+
     this.stop();
     this.animating = true;
     this.targetValue = targetValue;
-    this._velocity = velocity;
 
-    this.stopFunction = animate({
-      type: "spring",
+    this.solver = solver;
+    this.elapsed = 0;
+    // `scale` maps the value to the units `epsilon` is measured in.
+    this.settleDuration = this.solver.settleTime(
+      this.params.epsilon / this.scale
+    );
 
-      from: this.value * this.scale,
-      to: this.targetValue * this.scale,
+    if (this.settleDuration === 0) {
+      this.finish();
+      return;
+    }
 
-      velocity: this.velocity * this.scale,
-      stiffness: Math.pow((2 * Math.PI) / this.params.response, 2),
-      damping: (4 * Math.PI * this.params.dampingRatio) / this.params.response,
-      restDelta: this.params.epsilon,
+    const controls = driver((delta) => this.tick(delta));
+    this.stopFunction = controls.stop;
+    controls.start();
+  }
 
-      driver: CALayerDriver.driver,
+  tick(delta: number) {
+    if (!this.animating || !this.solver) return;
 
-      onUpdate: (value) => {
-        this._value = value / this.scale;
-        this.onChange?.(this.value);
-      },
+    this.elapsed += delta / 1000;
+    if (this.elapsed >= this.settleDuration) {
+      this.finish();
+      return;
+    }
 
-      onComplete: () => {
-        this.stopFunction = undefined;
-        this.stop();
-      },
-    }).stop;
+    this._value = this.solver.value(this.elapsed);
+    this.onChange?.(this.value);
+  }
+
+  finish() {
+    this._value = this.targetValue ?? this._value;
+    this.stop();
+    this.onChange?.(this.value);
+    this.onComplete?.();
   }
 
   stop() {
     this.targetValue = undefined;
     this.animating = false;
-    this.stopFunction?.();
+    this.solver = undefined;
+
+    const stopFunction = this.stopFunction;
+    this.stopFunction = undefined;
+    stopFunction?.();
+  }
+}
+
+export class VectorSpringAnimation {
+  components: SpringAnimation[];
+
+  onChange?: (value: number[]) => void;
+  onComplete?: () => void;
+
+  constructor(
+    initialValue: number[],
+    public scale: number,
+    public params: SpringParams = SpringParams.passiveEase,
+    options: SpringAnimationOptions = {}
+  ) {
+    this.components = initialValue.map((value) => {
+      const component = new SpringAnimation(value, scale, params, options);
+      component.onChange = () => this.onChange?.(this.value);
+      component.onComplete = () => {
+        if (!this.starting && !this.animating) this.onComplete?.();
+      };
+      return component;
+    });
+  }
+
+  starting = false;
+
+  get animating() {
+    return this.components.some((component) => component.animating);
+  }
+
+  get value() {
+    return this.components.map((component) => component.value);
+  }
+
+  set value(value) {
+    this.components.forEach((component, i) => (component.value = value[i]));
+  }
+
+  get targetValue() {
+    return this.animating
+      ? this.components.map(
+          (component) => component.targetValue ?? component.value
+        )
+      : undefined;
+  }
+
+  get velocity() {
+    return this.components.map((component) => component.velocity);
+  }
+
+  // Without an explicit velocity, the current one carries over, so
+  // retargeting mid-flight doesn't cause a kink.
+  start(targetValue: number[], velocity?: number[]) {
+    this.starting = true;
+    this.components.forEach((component, i) => {
+      component.params = this.params;
+      component.start(targetValue[i], velocity?.[i]);
+    });
+    this.starting = false;
+
+    if (!this.animating) this.onComplete?.();
+  }
+
+  stop() {
+    for (const component of this.components) component.stop();
   }
 }
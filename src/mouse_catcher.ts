@@ -1,10 +1,34 @@
 import "@nativescript/macos-node-api";
+import {
+  GesturePhase,
+  MagnifyEvent,
+  RotateEvent,
+  ScrollEvent,
+} from "./gestures.js";
+import { circleContainsPoint, inscribedCircle } from "./hit_test.js";
 
 export interface MouseCatcherDelegate {
   onMouseDown(): void;
   onMouseDrag(): void;
   onMouseUp(): void;
-  onScroll(event: NSEvent): void;
+  onScroll(event: ScrollEvent): void;
+  onMagnify(event: MagnifyEvent): void;
+  onRotate(event: RotateEvent): void;
+}
+
+function gesturePhase(phase: number): GesturePhase | undefined {
+  switch (phase) {
+    case NSEventPhase.Began:
+      return "began";
+    case NSEventPhase.Changed:
+      return "changed";
+    case NSEventPhase.Ended:
+      return "ended";
+    case NSEventPhase.Cancelled:
+      return "cancelled";
+    default:
+      return undefined;
+  }
 }
 
 export class MouseCatcherView extends NSView {
@@ -27,10 +51,63 @@ export class MouseCatcherView extends NSView {
   }
 
   scrollWheel(event: NSEvent) {
-    if (!(event.hasPreciseScrollingDeltas && event.momentumPhase == 0)) {
+    const momentum = event.momentumPhase !== 0;
+    const precise = event.hasPreciseScrollingDeltas;
+
+    // Mouse wheels don't report phases; each click is a one-off nudge.
+    const phase = precise
+      ? gesturePhase(momentum ? event.momentumPhase : event.phase)
+      : "changed";
+    if (!phase) {
+      return;
+    }
+
+    this.delegate.onScroll({
+      phase,
+      deltaX: event.scrollingDeltaX,
+      deltaY: event.scrollingDeltaY,
+      momentum,
+      precise,
+    });
+  }
+
+  magnifyWithEvent(event: NSEvent) {
+    const phase = gesturePhase(event.phase);
+    if (!phase) {
+      return;
+    }
+
+    this.delegate.onMagnify({ phase, magnification: event.magnification });
+  }
+
+  rotateWithEvent(event: NSEvent) {
+    const phase = gesturePhase(event.phase);
+    if (!phase) {
       return;
     }
 
-    this.delegate.onScroll(event);
+    this.delegate.onRotate({ phase, rotation: event.rotation });
+  }
+
+  // Only the circle catches clicks. Outside it the layer is clear, so the
+  // window server passes clicks to the apps underneath; this keeps AppKit
+  // from routing any that do arrive here.
+  hitTest(point: CGPoint): NSView {
+    const local = this.superview
+      ? this.convertPointFromView(point, this.superview)
+      : point;
+    if (!circleContainsPoint(inscribedCircle(this.bounds), local)) {
+      // @ts-expect-error it can be null, but headers do not make it nullable
+      return null;
+    }
+    return super.hitTest(point);
+  }
+
+  // Keeps the catcher round as the ball it covers is resized.
+  setFrameSize(newSize: CGSize) {
+    super.setFrameSize(newSize);
+    if (this.layer) {
+      this.layer.cornerRadius = Math.min(newSize.width, newSize.height) / 2;
+    }
   }
 }
@@ -0,0 +1,249 @@
+import fs from "node:fs";
+import path from "node:path";
+import process from "node:process";
+import { Platform } from "./platform.js";
+
+// Solid shapes besides the screen edges, in screen coordinates. Polylines
+// are open unless `closed` is set.
+export type Obstacle =
+  | { type: "rect"; rect: CGRect }
+  | { type: "polyline"; points: CGPoint[]; closed?: boolean };
+
+export class ObstacleError extends Error {
+  constructor(public key: string, message: string) {
+    super(`Invalid obstacle "${key}": ${message}`);
+    this.name = "ObstacleError";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function parsePoint(key: string, value: unknown): CGPoint {
+  if (
+    !isObject(value) ||
+    !isFiniteNumber(value.x) ||
+    !isFiniteNumber(value.y)
+  ) {
+    throw new ObstacleError(key, "expected a point like { x, y }");
+  }
+  return { x: value.x, y: value.y };
+}
+
+// Reads `{ "obstacles": [...] }`, where each obstacle is either
+// `{ "type": "rect", "x", "y", "width", "height" }` or
+// `{ "type": "polyline", "points": [{ "x", "y" }, ...], "closed"? }`.
+export function parseObstacles(input: unknown): Obstacle[] {
+  if (!isObject(input) || !Array.isArray(input.obstacles)) {
+    throw new ObstacleError("obstacles", "expected an array");
+  }
+
+  return input.obstacles.map((value: unknown, i: number): Obstacle => {
+    const key = `obstacles[${i}]`;
+    if (!isObject(value)) throw new ObstacleError(key, "expected an object");
+
+    switch (value.type) {
+      case "rect": {
+        const { x, y, width, height } = value;
+        if (
+          !isFiniteNumber(x) ||
+          !isFiniteNumber(y) ||
+          !isFiniteNumber(width) ||
+          !isFiniteNumber(height) ||
+          width <= 0 ||
+          height <= 0
+        ) {
+          throw new ObstacleError(
+            key,
+            "a rect needs numeric x and y and a positive width and height"
+          );
+        }
+        return {
+          type: "rect",
+          rect: { origin: { x, y }, size: { width, height } },
+        };
+      }
+      case "polyline": {
+        if (!Array.isArray(value.points) || value.points.length < 2) {
+          throw new ObstacleError(key, "a polyline needs at least two points");
+        }
+        if (value.closed !== undefined && typeof value.closed !== "boolean") {
+          throw new ObstacleError(key, `"closed" must be true or false`);
+        }
+        return {
+          type: "polyline",
+          points: value.points.map((point, j) =>
+            parsePoint(`${key}.points[${j}]`, point)
+          ),
+          closed: value.closed,
+        };
+      }
+      default: {
+        const type = JSON.stringify(value.type);
+        throw new ObstacleError(
+          key,
+          `unknown type ${type}, expected "rect" or "polyline"`
+        );
+      }
+    }
+  });
+}
+
+// Supplies obstacles to the scene, which rebuilds its static bodies whenever
+// a provider calls its change listeners.
+export interface ObstacleProvider {
+  readonly obstacles: Obstacle[];
+  onChange(listener: () => void): () => void;
+  start(): void;
+  stop(): void;
+}
+
+export class BaseObstacleProvider implements ObstacleProvider {
+  obstacles: Obstacle[] = [];
+  listeners = new Set<() => void>();
+
+  onChange(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Replaces the obstacles, telling listeners only if anything changed.
+  update(obstacles: Obstacle[]) {
+    if (JSON.stringify(obstacles) === JSON.stringify(this.obstacles)) return;
+
+    this.obstacles = obstacles;
+    for (const listener of this.listeners) listener();
+  }
+
+  start() {}
+
+  stop() {}
+}
+
+export class StaticObstacleProvider extends BaseObstacleProvider {
+  constructor(obstacles: Obstacle[]) {
+    super();
+    this.obstacles = obstacles;
+  }
+}
+
+// Obstacles from a JSON file, reloaded when the file changes. Meant for
+// testing layouts without arranging real windows.
+export class JsonFileObstacleProvider extends BaseObstacleProvider {
+  watcher?: fs.FSWatcher;
+  reloadTimeout?: ReturnType<typeof setTimeout>;
+
+  constructor(public filePath: string) {
+    super();
+  }
+
+  read() {
+    const text = fs.readFileSync(this.filePath, "utf8");
+    let input: unknown;
+    try {
+      input = JSON.parse(text);
+    } catch (error) {
+      throw new ObstacleError(
+        "(root)",
+        `${this.filePath} is not valid JSON: ${(error as Error).message}`
+      );
+    }
+    return parseObstacles(input);
+  }
+
+  // Keeps the current obstacles when the file doesn't validate.
+  reload() {
+    try {
+      this.update(this.read());
+    } catch (error) {
+      console.error(`${error}. Keeping the previous obstacles.`);
+    }
+  }
+
+  start() {
+    this.reload();
+    if (this.watcher) return;
+
+    const directory = path.dirname(this.filePath);
+    if (!fs.existsSync(directory)) return;
+
+    const file = path.basename(this.filePath);
+    this.watcher = fs.watch(directory, (_event, changed) => {
+      if (changed && changed.toString() !== file) return;
+
+      clearTimeout(this.reloadTimeout);
+      this.reloadTimeout = setTimeout(() => this.reload(), 100);
+    });
+  }
+
+  stop() {
+    clearTimeout(this.reloadTimeout);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+}
+
+export interface WindowListObstacleOptions {
+  // Seconds between polls of the window list.
+  interval?: number;
+  // Windows smaller than this in either direction are ignored.
+  minSize?: number;
+  // Our own windows (the ball and click windows) are never obstacles.
+  ownPID?: number;
+}
+
+// Makes every ordinary window of other apps solid. The window server has no
+// change notifications for other apps' windows, so the list is polled.
+export class WindowListObstacleProvider extends BaseObstacleProvider {
+  interval: number;
+  minSize: number;
+  ownPID: number;
+  cancel?: () => void;
+
+  constructor(
+    public platform: Pick<Platform, "windowList" | "timers">,
+    options: WindowListObstacleOptions = {}
+  ) {
+    super();
+    this.interval = options.interval ?? 0.5;
+    this.minSize = options.minSize ?? 50;
+    this.ownPID = options.ownPID ?? process.pid;
+  }
+
+  poll() {
+    this.update(
+      this.platform.windowList.windows
+        .filter(
+          (window) =>
+            window.layer === 0 &&
+            window.ownerPID !== this.ownPID &&
+            window.frame.size.width >= this.minSize &&
+            window.frame.size.height >= this.minSize
+        )
+        .map((window) => ({ type: "rect", rect: window.frame }))
+    );
+  }
+
+  start() {
+    if (this.cancel) return;
+
+    this.poll();
+    this.cancel = this.platform.timers.schedule(
+      this.interval,
+      () => this.poll(),
+      true
+    );
+  }
+
+  stop() {
+    this.cancel?.();
+    this.cancel = undefined;
+  }
+}
@@ -0,0 +1,211 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  PhysicsBody,
+  PhysicsContact,
+  PhysicsWorld,
+  POINTS_PER_METER,
+} from "./physics.js";
+
+const rect = {
+  origin: { x: 0, y: 0 },
+  size: { width: 200, height: 100 },
+};
+
+function run(world: PhysicsWorld, seconds: number) {
+  for (let time = 0; time < seconds; time += 1 / 60) world.simulate(1 / 60);
+}
+
+function floorWorld(gravity = { dx: 0, dy: -9.8 }) {
+  const world = new PhysicsWorld();
+  world.gravity = gravity;
+  world.addBody(
+    PhysicsBody.edgeChain([
+      { x: -1000, y: 0 },
+      { x: 1000, y: 0 },
+    ])
+  );
+  return world;
+}
+
+function step(world: PhysicsWorld, steps: number) {
+  for (let i = 0; i < steps; i++) world.step();
+}
+
+describe("PhysicsBody", () => {
+  it("derives mass from density and radius", () => {
+    const ball = PhysicsBody.circle(POINTS_PER_METER);
+    ball.density = 2;
+    assert.equal(ball.mass, 2 * Math.PI);
+
+    ball.applyImpulse({ dx: 6 * Math.PI, dy: -2 * Math.PI });
+    assert.ok(Math.abs(ball.velocity.dx - 3) < 1e-12);
+    assert.ok(Math.abs(ball.velocity.dy + 1) < 1e-12);
+  });
+
+  it("ignores impulses on bodies that aren't dynamic", () => {
+    const ball = PhysicsBody.circle(10);
+    ball.isDynamic = false;
+    ball.applyImpulse({ dx: 1, dy: 1 });
+    assert.deepEqual(ball.velocity, { dx: 0, dy: 0 });
+  });
+});
+
+describe("PhysicsWorld", () => {
+  it("bounces off the floor with the greater restitution", () => {
+    const world = floorWorld({ dx: 0, dy: 0 });
+    const ball = PhysicsBody.circle(20);
+    ball.restitution = 0.5;
+    ball.position = { x: 0, y: 22 };
+    ball.velocity = { dx: 0, dy: -600 };
+    world.addBody(ball);
+
+    world.step();
+    assert.ok(Math.abs(ball.velocity.dy - 300) < 1e-9);
+    assert.ok(ball.position.y >= 20);
+  });
+
+  it("stops bouncing below the resting velocity", () => {
+    const world = floorWorld({ dx: 0, dy: 0 });
+    const ball = PhysicsBody.circle(20);
+    ball.restitution = 1;
+    ball.position = { x: 0, y: 20 };
+    ball.velocity = { dx: 0, dy: -world.restingVelocity / 2 };
+    world.addBody(ball);
+
+    world.step();
+    assert.equal(ball.velocity.dy, 0);
+  });
+
+  it("turns sliding into rolling through friction", () => {
+    const world = floorWorld();
+    const ball = PhysicsBody.circle(20);
+    ball.position = { x: 0, y: 20 };
+    ball.velocity = { dx: 300, dy: 0 };
+    world.addBody(ball);
+
+    step(world, 60);
+    // Rolling without slipping, clockwise, having lost about a third of the
+    // speed to spinning up.
+    assert.ok(ball.velocity.dx > 180 && ball.velocity.dx < 200);
+    assert.ok(Math.abs(ball.angularVelocity * 20 + ball.velocity.dx) < 0.01);
+    assert.ok(ball.zRotation < 0);
+  });
+
+  it("slides without spinning when rotation isn't allowed", () => {
+    const world = floorWorld();
+    const ball = PhysicsBody.circle(20);
+    ball.allowsRotation = false;
+    ball.position = { x: 0, y: 20 };
+    ball.velocity = { dx: 300, dy: 0 };
+    world.addBody(ball);
+
+    step(world, 120);
+    assert.equal(ball.angularVelocity, 0);
+    assert.ok(ball.velocity.dx < 300);
+  });
+
+  it("reports each new contact once, with its normal and impulse", () => {
+    const world = floorWorld();
+    world.bodies[0].restitution = 0;
+    const ball = PhysicsBody.circle(15);
+    ball.restitution = 0;
+    ball.contactTestBitMask = 1;
+    ball.position = { x: 0, y: 20 };
+    ball.velocity = { dx: 0, dy: -600 };
+    world.addBody(ball);
+
+    const began: PhysicsContact[] = [];
+    let ended = 0;
+    world.contactDelegate = {
+      didBeginContact: (contact) => began.push({ ...contact }),
+      didEndContact: () => ended++,
+    };
+
+    // Gravity adds to the speed before the step moves the ball.
+    const speed = 600 + (9.8 * POINTS_PER_METER) / 120;
+    step(world, 120);
+
+    assert.equal(began.length, 1);
+    assert.equal(ended, 0);
+    assert.equal(began[0].bodyB, ball);
+    assert.deepEqual(began[0].contactNormal, { dx: 0, dy: 1 });
+    assert.ok(Math.abs(began[0].collisionImpulse - speed * ball.mass) < 1e-9);
+
+    // Thrown up and off the floor, then landing again.
+    ball.velocity = { dx: 0, dy: 600 };
+    step(world, 240);
+    assert.equal(ended, 1);
+    assert.equal(began.length, 2);
+  });
+
+  it("steps identically set up worlds identically", () => {
+    const setUp = () => {
+      const world = new PhysicsWorld();
+      world.addBody(PhysicsBody.edgeLoopFromRect(rect));
+      const balls = [0, 1, 2].map((i) => {
+        const ball = PhysicsBody.circle(8 + i);
+        ball.position = { x: 30 + i * 50, y: 60 + i * 5 };
+        ball.applyImpulse({ dx: 0.3 - i * 0.2, dy: 0.1 * i });
+        world.addBody(ball);
+        return ball;
+      });
+      return { world, balls };
+    };
+    const state = (balls: PhysicsBody[]) =>
+      balls.map(({ position, velocity, zRotation, angularVelocity }) => ({
+        position,
+        velocity,
+        zRotation,
+        angularVelocity,
+      }));
+
+    const a = setUp();
+    const b = setUp();
+    for (let i = 0; i < 1000; i++) {
+      a.world.step();
+      b.world.step();
+      assert.deepEqual(state(a.balls), state(b.balls));
+    }
+  });
+
+  it("keeps a ball out of a solid loop", () => {
+    const world = new PhysicsWorld();
+    const obstacle = PhysicsBody.edgeLoopFromRect(rect);
+    obstacle.isSolid = true;
+    world.addBody(obstacle);
+
+    const ball = PhysicsBody.circle(10);
+    ball.position = { x: 100, y: 150 };
+    world.addBody(ball);
+
+    run(world, 2);
+    assert.ok(ball.position.y >= 110 - world.contactSlop);
+  });
+
+  it("lets a ball inside a solid loop fall out of it", () => {
+    const world = new PhysicsWorld();
+    const obstacle = PhysicsBody.edgeLoopFromRect(rect);
+    obstacle.isSolid = true;
+    world.addBody(obstacle);
+
+    const ball = PhysicsBody.circle(10);
+    ball.position = { x: 100, y: 50 };
+    world.addBody(ball);
+
+    run(world, 1);
+    assert.ok(ball.position.y < -10);
+  });
+
+  it("keeps a ball inside a hollow loop", () => {
+    const world = new PhysicsWorld();
+    world.addBody(PhysicsBody.edgeLoopFromRect(rect));
+
+    const ball = PhysicsBody.circle(10);
+    ball.position = { x: 100, y: 50 };
+    world.addBody(ball);
+
+    run(world, 1);
+    assert.ok(ball.position.y >= 10 - world.contactSlop);
+  });
+});
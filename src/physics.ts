@@ -0,0 +1,506 @@
+// A small deterministic rigid-body simulation standing in for SpriteKit's
+// physics world. Units follow SpriteKit: positions are in points, velocities
+// in points per second, gravity in meters per second squared and masses are
+// derived from the area in square meters (150 points to a meter).
+
+export const POINTS_PER_METER = 150;
+
+export type PhysicsShape =
+  | { type: "circle"; radius: number }
+  | { type: "edges"; points: CGPoint[]; closed: boolean };
+
+export interface PhysicsContact {
+  bodyA: PhysicsBody;
+  bodyB: PhysicsBody;
+  contactPoint: CGPoint;
+  contactNormal: CGVector;
+  collisionImpulse: number;
+}
+
+export interface PhysicsContactDelegate {
+  didBeginContact?(contact: PhysicsContact): void;
+  didEndContact?(contact: PhysicsContact): void;
+}
+
+let nextBodyId = 0;
+
+export class PhysicsBody {
+  readonly id = nextBodyId++;
+
+  world?: PhysicsWorld;
+
+  position: CGPoint = { x: 0, y: 0 };
+  velocity: CGVector = { dx: 0, dy: 0 };
+  // Radians, counterclockwise.
+  zRotation = 0;
+  // Radians per second, counterclockwise.
+  angularVelocity = 0;
+
+  isDynamic: boolean;
+  affectedByGravity = true;
+  restitution = 0.2;
+  friction = 0.2;
+  // Whether friction turns sliding into spin. Without it circles slide.
+  allowsRotation = true;
+  // Fraction of the angular velocity lost per second, which stands in for
+  // rolling resistance so a rolling ball comes to rest.
+  angularDamping = 0.5;
+  // Fraction of the velocity lost per second, like air resistance.
+  linearDamping = 0;
+  density = 1;
+  usesPreciseCollisionDetection = false;
+  // Whether a closed edge loop is filled in, like an obstacle, rather than a
+  // container, like the screen. Circles whose centre is inside a solid loop
+  // pass through its edges, so one that starts or ends up inside isn't
+  // trapped there.
+  isSolid = false;
+
+  categoryBitMask = 0xffffffff;
+  collisionBitMask = 0xffffffff;
+  contactTestBitMask = 0;
+
+  constructor(public shape: PhysicsShape) {
+    this.isDynamic = shape.type === "circle";
+  }
+
+  static circle(radius: number) {
+    return new PhysicsBody({ type: "circle", radius });
+  }
+
+  static edgeLoop(points: CGPoint[]) {
+    return new PhysicsBody({ type: "edges", points, closed: true });
+  }
+
+  static edgeChain(points: CGPoint[]) {
+    return new PhysicsBody({ type: "edges", points, closed: false });
+  }
+
+  static edgeLoopFromRect(rect: CGRect) {
+    const minX = rect.origin.x;
+    const minY = rect.origin.y;
+    const maxX = minX + rect.size.width;
+    const maxY = minY + rect.size.height;
+
+    return PhysicsBody.edgeLoop([
+      { x: minX, y: minY },
+      { x: maxX, y: minY },
+      { x: maxX, y: maxY },
+      { x: minX, y: maxY },
+    ]);
+  }
+
+  get area() {
+    if (this.shape.type !== "circle") return 0;
+    const radius = this.shape.radius / POINTS_PER_METER;
+    return Math.PI * radius * radius;
+  }
+
+  get mass() {
+    return this.density * this.area;
+  }
+
+  // A solid disc's, in mass times square points so that angular impulses
+  // can use the same units as positions.
+  get momentOfInertia() {
+    if (this.shape.type !== "circle") return 0;
+    return 0.5 * this.mass * this.shape.radius * this.shape.radius;
+  }
+
+  applyAngularImpulse(impulse: number) {
+    const inertia = this.momentOfInertia;
+    if (!this.isDynamic || !this.allowsRotation || inertia <= 0) return;
+
+    this.angularVelocity += impulse / inertia;
+  }
+
+  applyImpulse(impulse: CGVector) {
+    const mass = this.mass;
+    if (!this.isDynamic || mass <= 0) return;
+
+    this.velocity = {
+      dx: this.velocity.dx + impulse.dx / mass,
+      dy: this.velocity.dy + impulse.dy / mass,
+    };
+  }
+
+  get segments(): [CGPoint, CGPoint][] {
+    if (this.shape.type !== "edges") return [];
+
+    const points = this.shape.points;
+    const segments: [CGPoint, CGPoint][] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+      segments.push([points[i], points[i + 1]]);
+    }
+    if (this.shape.closed && points.length > 2) {
+      segments.push([points[points.length - 1], points[0]]);
+    }
+    return segments;
+  }
+
+  // Whether `point` is inside a closed edge loop, by counting the edges a
+  // ray to its right crosses.
+  containsPoint(point: CGPoint) {
+    if (this.shape.type !== "edges" || !this.shape.closed) return false;
+
+    let inside = false;
+    for (const [a, b] of this.segments) {
+      if (a.y > point.y === b.y > point.y) continue;
+      const x = a.x + ((point.y - a.y) / (b.y - a.y)) * (b.x - a.x);
+      if (x > point.x) inside = !inside;
+    }
+    return inside;
+  }
+}
+
+function closestPointOnSegment(p: CGPoint, a: CGPoint, b: CGPoint): CGPoint {
+  const abX = b.x - a.x;
+  const abY = b.y - a.y;
+  const lengthSquared = abX * abX + abY * abY;
+  if (lengthSquared === 0) return { x: a.x, y: a.y };
+
+  const t = Math.min(
+    Math.max(((p.x - a.x) * abX + (p.y - a.y) * abY) / lengthSquared, 0),
+    1
+  );
+  return { x: a.x + t * abX, y: a.y + t * abY };
+}
+
+export class PhysicsWorld {
+  gravity: CGVector = { dx: 0, dy: -9.8 };
+  // Acceleration on top of gravity for a body where it is, in the same
+  // units, e.g. a pull towards a point.
+  field?: (body: PhysicsBody) => CGVector;
+  speed = 1;
+
+  timeStep = 1 / 120;
+  maxStepsPerFrame = 8;
+
+  // Contacts slower than this (in points per second) don't bounce, so a ball
+  // at rest settles instead of jittering on the floor.
+  restingVelocity = 30;
+  contactSlop = 0.5;
+
+  contactDelegate?: PhysicsContactDelegate;
+
+  bodies: PhysicsBody[] = [];
+
+  accumulator = 0;
+  contacts = new Map<string, PhysicsContact>();
+
+  addBody(body: PhysicsBody) {
+    if (body.world === this) return;
+    body.world?.removeBody(body);
+
+    body.world = this;
+    this.bodies.push(body);
+  }
+
+  removeBody(body: PhysicsBody) {
+    if (body.world !== this) return;
+
+    body.world = undefined;
+    this.bodies = this.bodies.filter((b) => b !== body);
+
+    for (const [key, contact] of this.contacts) {
+      if (contact.bodyA === body || contact.bodyB === body) {
+        this.contacts.delete(key);
+      }
+    }
+  }
+
+  simulate(elapsed: number) {
+    this.accumulator += elapsed * this.speed;
+
+    let steps = 0;
+    while (this.accumulator >= this.timeStep) {
+      if (steps === this.maxStepsPerFrame) {
+        this.accumulator = 0;
+        break;
+      }
+
+      this.step();
+      this.accumulator -= this.timeStep;
+      steps++;
+    }
+  }
+
+  step() {
+    const dt = this.timeStep;
+    const touching = new Map<string, PhysicsContact>();
+
+    for (const body of this.bodies) {
+      if (!body.isDynamic || body.shape.type !== "circle") continue;
+
+      if (body.affectedByGravity) {
+        const field = this.field?.(body) ?? { dx: 0, dy: 0 };
+        const ax = this.gravity.dx + field.dx;
+        const ay = this.gravity.dy + field.dy;
+        body.velocity = {
+          dx: body.velocity.dx + ax * POINTS_PER_METER * dt,
+          dy: body.velocity.dy + ay * POINTS_PER_METER * dt,
+        };
+      }
+
+      if (body.linearDamping > 0) {
+        const keep = Math.max(1 - body.linearDamping * dt, 0);
+        body.velocity = {
+          dx: body.velocity.dx * keep,
+          dy: body.velocity.dy * keep,
+        };
+      }
+
+      if (body.allowsRotation) {
+        body.angularVelocity *= Math.max(1 - body.angularDamping * dt, 0);
+        body.zRotation += body.angularVelocity * dt;
+      } else {
+        body.angularVelocity = 0;
+      }
+
+      const travel = Math.hypot(body.velocity.dx, body.velocity.dy) * dt;
+      const subSteps = body.usesPreciseCollisionDetection
+        ? Math.max(1, Math.ceil(travel / (body.shape.radius / 2)))
+        : 1;
+
+      for (let i = 0; i < subSteps; i++) {
+        body.position = {
+          x: body.position.x + (body.velocity.dx * dt) / subSteps,
+          y: body.position.y + (body.velocity.dy * dt) / subSteps,
+        };
+
+        this.resolveEdgeCollisions(body, touching);
+      }
+    }
+
+    if (this.resolveCircleCollisions(touching)) {
+      for (const body of this.bodies) {
+        if (body.isDynamic) this.resolveEdgeCollisions(body, touching);
+      }
+    }
+
+    const previous = this.contacts;
+    this.contacts = touching;
+
+    for (const [key, contact] of touching) {
+      if (!previous.has(key) && this.shouldReport(contact)) {
+        this.contactDelegate?.didBeginContact?.(contact);
+      }
+    }
+
+    for (const [key, contact] of previous) {
+      if (!touching.has(key) && this.shouldReport(contact)) {
+        this.contactDelegate?.didEndContact?.(contact);
+      }
+    }
+  }
+
+  shouldReport(contact: PhysicsContact) {
+    const { bodyA, bodyB } = contact;
+    return (
+      (bodyA.categoryBitMask & bodyB.contactTestBitMask) !== 0 ||
+      (bodyB.categoryBitMask & bodyA.contactTestBitMask) !== 0
+    );
+  }
+
+  recordContact(
+    touching: Map<string, PhysicsContact>,
+    bodyA: PhysicsBody,
+    bodyB: PhysicsBody,
+    contactPoint: CGPoint,
+    contactNormal: CGVector,
+    impulse: number
+  ) {
+    const key = `${bodyA.id}:${bodyB.id}`;
+    const existing = touching.get(key);
+    if (existing) {
+      existing.collisionImpulse += impulse;
+    } else {
+      touching.set(key, {
+        bodyA,
+        bodyB,
+        contactPoint,
+        contactNormal,
+        collisionImpulse: impulse,
+      });
+    }
+  }
+
+  resolveEdgeCollisions(
+    body: PhysicsBody,
+    touching: Map<string, PhysicsContact>
+  ) {
+    if (body.shape.type !== "circle") return;
+    const radius = body.shape.radius;
+
+    for (const other of this.bodies) {
+      if (other === body || other.shape.type !== "edges") continue;
+      if ((other.categoryBitMask & body.collisionBitMask) === 0) continue;
+      if (other.isSolid && other.containsPoint(body.position)) continue;
+
+      for (const [a, b] of other.segments) {
+        const closest = closestPointOnSegment(body.position, a, b);
+        let nx = body.position.x - closest.x;
+        let ny = body.position.y - closest.y;
+        const distance = Math.hypot(nx, ny);
+
+        if (distance >= radius + this.contactSlop) continue;
+
+        if (distance > 0) {
+          nx /= distance;
+          ny /= distance;
+        } else {
+          const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+          nx = -(b.y - a.y) / length;
+          ny = (b.x - a.x) / length;
+        }
+
+        if (distance < radius) {
+          body.position = {
+            x: body.position.x + nx * (radius - distance),
+            y: body.position.y + ny * (radius - distance),
+          };
+        }
+
+        let impulse = 0;
+        const normalVelocity = body.velocity.dx * nx + body.velocity.dy * ny;
+        if (normalVelocity < 0) {
+          const restitution =
+            -normalVelocity < this.restingVelocity
+              ? 0
+              : Math.max(body.restitution, other.restitution);
+          const deltaV = -(1 + restitution) * normalVelocity;
+
+          // Friction works against the slip at the contact point, which
+          // for a spinning ball differs from its velocity along the edge.
+          // Rolling without slipping takes a third of the slip out of the
+          // velocity and the rest out of the spin.
+          const spinning = body.allowsRotation && body.momentOfInertia > 0;
+          const slip =
+            -body.velocity.dx * ny +
+            body.velocity.dy * nx -
+            (spinning ? body.angularVelocity * radius : 0);
+          const inverseMass =
+            1 / body.mass +
+            (spinning ? (radius * radius) / body.momentOfInertia : 0);
+          const friction = Math.sqrt(body.friction * other.friction);
+          const tangentDeltaV =
+            -Math.sign(slip) *
+            Math.min(
+              Math.abs(slip) / (inverseMass * body.mass),
+              friction * deltaV
+            );
+
+          body.velocity = {
+            dx: body.velocity.dx + nx * deltaV - ny * tangentDeltaV,
+            dy: body.velocity.dy + ny * deltaV + nx * tangentDeltaV,
+          };
+          if (spinning) {
+            body.angularVelocity -=
+              (radius * tangentDeltaV * body.mass) / body.momentOfInertia;
+          }
+          impulse = deltaV * body.mass;
+        }
+
+        this.recordContact(
+          touching,
+          other,
+          body,
+          closest,
+          { dx: nx, dy: ny },
+          impulse
+        );
+      }
+    }
+  }
+
+  // Non-dynamic circles (a ball being dragged) push dynamic ones around as if
+  // they had infinite mass. Returns whether any circle was moved.
+  resolveCircleCollisions(touching: Map<string, PhysicsContact>) {
+    const circles = this.bodies.filter((body) => body.shape.type === "circle");
+    let moved = false;
+
+    for (let i = 0; i < circles.length; i++) {
+      for (let j = i + 1; j < circles.length; j++) {
+        const a = circles[i];
+        const b = circles[j];
+        if (!a.isDynamic && !b.isDynamic) continue;
+        if (
+          (a.categoryBitMask & b.collisionBitMask) === 0 &&
+          (b.categoryBitMask & a.collisionBitMask) === 0
+        ) {
+          continue;
+        }
+
+        const radiusA = a.shape.type === "circle" ? a.shape.radius : 0;
+        const radiusB = b.shape.type === "circle" ? b.shape.radius : 0;
+
+        let nx = b.position.x - a.position.x;
+        let ny = b.position.y - a.position.y;
+        const distance = Math.hypot(nx, ny);
+        const overlap = radiusA + radiusB - distance;
+
+        if (overlap <= -this.contactSlop) continue;
+
+        if (distance > 0) {
+          nx /= distance;
+          ny /= distance;
+        } else {
+          nx = 0;
+          ny = 1;
+        }
+
+        const inverseMassA = a.isDynamic ? 1 / a.mass : 0;
+        const inverseMassB = b.isDynamic ? 1 / b.mass : 0;
+        const inverseMass = inverseMassA + inverseMassB;
+
+        if (overlap > 0) {
+          const shareA = inverseMassA / inverseMass;
+          const shareB = inverseMassB / inverseMass;
+          a.position = {
+            x: a.position.x - nx * overlap * shareA,
+            y: a.position.y - ny * overlap * shareA,
+          };
+          b.position = {
+            x: b.position.x + nx * overlap * shareB,
+            y: b.position.y + ny * overlap * shareB,
+          };
+          moved = true;
+        }
+
+        let impulse = 0;
+        const normalVelocity =
+          (b.velocity.dx - a.velocity.dx) * nx +
+          (b.velocity.dy - a.velocity.dy) * ny;
+        if (normalVelocity < 0) {
+          const restitution =
+            -normalVelocity < this.restingVelocity
+              ? 0
+              : Math.max(a.restitution, b.restitution);
+          impulse = (-(1 + restitution) * normalVelocity) / inverseMass;
+
+          a.velocity = {
+            dx: a.velocity.dx - nx * impulse * inverseMassA,
+            dy: a.velocity.dy - ny * impulse * inverseMassA,
+          };
+          b.velocity = {
+            dx: b.velocity.dx + nx * impulse * inverseMassB,
+            dy: b.velocity.dy + ny * impulse * inverseMassB,
+          };
+        }
+
+        this.recordContact(
+          touching,
+          a,
+          b,
+          {
+            x: a.position.x + nx * radiusA,
+            y: a.position.y + ny * radiusA,
+          },
+          { dx: nx, dy: ny },
+          impulse
+        );
+      }
+    }
+
+    return moved;
+  }
+}
@@ -0,0 +1,118 @@
+// The parts of the host system the app logic talks to. `MacOSPlatform` backs
+// these with AppKit, `FakePlatform` with plain objects so the same logic runs
+// under Node or Deno without a window server.
+
+export interface PlatformScreen {
+  readonly frame: CGRect;
+  readonly visibleFrame: CGRect;
+}
+
+export interface PlatformScreens {
+  readonly all: PlatformScreen[];
+  readonly main?: PlatformScreen;
+}
+
+export interface PlatformMouse {
+  readonly location: CGPoint;
+}
+
+export interface KeyModifiers {
+  shift: boolean;
+  control: boolean;
+  option: boolean;
+  command: boolean;
+}
+
+export interface KeyPress {
+  // Lowercase letter or digit, or a name such as "left" or "space".
+  key: string;
+  modifiers: KeyModifiers;
+  isRepeat: boolean;
+}
+
+export interface PlatformKeyboard {
+  readonly modifiers: KeyModifiers;
+  // Calls `handler` for key presses sent to this app. Returning true consumes
+  // the press. Returns a function that stops the monitoring.
+  monitorLocal(handler: (press: KeyPress) => boolean): () => void;
+  // Calls `handler` for key presses sent to other apps, which macOS only
+  // reports once the user allows accessibility access.
+  monitorGlobal(handler: (press: KeyPress) => void): () => void;
+}
+
+export interface PlatformWindow {
+  readonly frame: CGRect;
+  readonly screen?: PlatformScreen;
+  isVisible: boolean;
+  setFrame(frame: CGRect, display?: boolean): void;
+}
+
+// A window of any app, as listed by the window server.
+export interface WindowInfo {
+  // In screen coordinates, like `PlatformScreen.frame`.
+  frame: CGRect;
+  ownerPID: number;
+  // 0 for ordinary windows; menus, the Dock and the like sit higher.
+  layer: number;
+}
+
+export interface PlatformWindowList {
+  // Every on-screen window, front to back.
+  readonly windows: WindowInfo[];
+}
+
+export type DockTileContent = "ball" | "putBack";
+
+export interface PlatformDockTile {
+  content: DockTileContent;
+  // Paths of the images shown for each kind of content. The ball image is
+  // also the app icon.
+  setImages(ball: string, putBack: string): void;
+}
+
+// The Dock's own settings (the `com.apple.dock` defaults). Sizes are in
+// points; anything the user never changed is left undefined.
+export interface DockPreferences {
+  orientation?: "bottom" | "left" | "right";
+  tileSize?: number;
+  autohide: boolean;
+  magnification: boolean;
+  largeSize?: number;
+}
+
+export interface PlatformDock {
+  readonly preferences: DockPreferences;
+}
+
+export interface PlatformSound {
+  volume: number;
+  // Playback speed, which also shifts the pitch; 1 is the recorded speed.
+  rate: number;
+  readonly isPlaying: boolean;
+  play(): void;
+  stop(): void;
+}
+
+export interface PlatformSounds {
+  load(path: string): PlatformSound;
+}
+
+export interface PlatformTimers {
+  now(): number;
+  schedule(
+    seconds: number,
+    callback: () => void,
+    repeats?: boolean
+  ): () => void;
+}
+
+export interface Platform {
+  readonly screens: PlatformScreens;
+  readonly mouse: PlatformMouse;
+  readonly keyboard: PlatformKeyboard;
+  readonly windowList: PlatformWindowList;
+  readonly dock: PlatformDock;
+  readonly dockTile: PlatformDockTile;
+  readonly sounds: PlatformSounds;
+  readonly timers: PlatformTimers;
+}
@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Clock, ManualClock } from "./clock.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import {
+  parseSession,
+  ReplayTarget,
+  SESSION_VERSION,
+  SessionFormatError,
+  SessionRecorder,
+  SessionReplayer,
+  SessionSnapshot,
+} from "./session.js";
+
+const snapshot: SessionSnapshot = {
+  screenRects: [{ origin: { x: 0, y: 0 }, size: { width: 800, height: 600 } }],
+  config: DEFAULT_CONFIG,
+  balls: [],
+  gravity: { gravity: { dx: 0, dy: -9.8 }, pull: 0, damping: 0 },
+};
+
+function header(version: unknown = SESSION_VERSION) {
+  return JSON.stringify({
+    type: "header",
+    version,
+    startedAt: "2026-01-01T00:00:00.000Z",
+    ...snapshot,
+  });
+}
+
+// Logs each call with the replay clock's time and the mouse override.
+class RecordingTarget implements ReplayTarget {
+  clock: Clock = new ManualClock();
+  mouseScenePosOverride?: CGPoint;
+  calls: unknown[][] = [];
+  restored?: SessionSnapshot;
+
+  log(...call: unknown[]) {
+    this.calls.push([this.clock.now(), ...call]);
+  }
+
+  restoreSession(snapshot: SessionSnapshot) {
+    this.restored = snapshot;
+  }
+  onMouseDown() {
+    this.log("mouseDown", this.mouseScenePosOverride);
+  }
+  onMouseDrag() {
+    this.log("mouseDrag", this.mouseScenePosOverride);
+  }
+  onMouseUp() {
+    this.log("mouseUp", this.mouseScenePosOverride);
+  }
+  onScroll() {
+    this.log("scroll");
+  }
+  onMagnify() {
+    this.log("magnify");
+  }
+  onRotate() {
+    this.log("rotate");
+  }
+  launch(rect: CGRect) {
+    this.log("launch", rect);
+  }
+  dock(rect: CGRect) {
+    this.log("dock", rect);
+  }
+  setGravityMode(mode: string, dockEdge?: string) {
+    this.log("gravityMode", mode, dockEdge);
+  }
+  nudge(change: CGVector) {
+    this.log("nudge", change);
+  }
+  hop(speed: number) {
+    this.log("hop", speed);
+  }
+  applyImpulse(impulse: CGVector, ball?: number) {
+    this.log("impulse", impulse, ball);
+  }
+  teleportInScene(position: CGPoint, ball?: number) {
+    this.log("teleport", position, ball);
+  }
+  setGravity(gravity: CGVector) {
+    this.log("gravity", gravity);
+  }
+  runFrame(elapsed: number) {
+    this.log("frame", elapsed);
+  }
+}
+
+describe("parseSession", () => {
+  it("rejects other versions", () => {
+    for (const version of [SESSION_VERSION - 1, SESSION_VERSION + 1, "3"]) {
+      assert.throws(
+        () => parseSession(header(version)),
+        (error) =>
+          error instanceof SessionFormatError &&
+          error.line === 1 &&
+          /unsupported version/.test(error.message)
+      );
+    }
+  });
+
+  it("requires a header", () => {
+    assert.throws(() => parseSession(""), SessionFormatError);
+    assert.throws(
+      () => parseSession(`{"type":"frame","time":0,"elapsed":0}`),
+      /line 1: missing header/
+    );
+  });
+
+  it("reports the line of a malformed entry", () => {
+    const text = [
+      header(),
+      `{"type":"frame","time":0,"elapsed":0.016}`,
+      `{"type":"frame","time":`,
+    ].join("\n");
+    assert.throws(
+      () => parseSession(text),
+      (error) => error instanceof SessionFormatError && error.line === 3
+    );
+  });
+
+  it("rejects unknown entries and missing times", () => {
+    for (const entry of [`{"type":"explode","time":1}`, `{"type":"hop"}`]) {
+      assert.throws(
+        () => parseSession(`${header()}\n${entry}\n`),
+        /line 2: unknown entry/
+      );
+    }
+  });
+
+  it("skips blank lines", () => {
+    const text = `${header()}\n\n{"type":"frame","time":0,"elapsed":0}\n\n`;
+    assert.equal(parseSession(text).events.length, 1);
+  });
+});
+
+describe("SessionReplayer", () => {
+  function record() {
+    const clock = new ManualClock(100);
+    let text = "";
+    const recorder = new SessionRecorder(
+      (line) => (text += line),
+      clock,
+      snapshot
+    );
+
+    recorder.record({ type: "mouseDown", mouse: { x: 10, y: 20 } });
+    clock.advance(0.5);
+    recorder.record({ type: "frame", elapsed: 0.5 });
+    recorder.record({ type: "mouseDrag", mouse: { x: 30, y: 40 } });
+    clock.advance(0.25);
+    recorder.record({ type: "mouseUp", mouse: { x: 35, y: 45 } });
+    recorder.record({ type: "gravityMode", mode: "dock", dockEdge: "left" });
+    clock.advance(1);
+    recorder.record({ type: "impulse", impulse: { dx: 1, dy: 2 }, ball: 0 });
+    recorder.record({ type: "frame", elapsed: 1 });
+    recorder.close();
+
+    return parseSession(text);
+  }
+
+  it("replays a recording in order on its own clock", () => {
+    const target = new RecordingTarget();
+    const replayer = new SessionReplayer(target, record());
+    assert.deepEqual(target.restored?.screenRects, snapshot.screenRects);
+
+    replayer.runToEnd();
+    assert.deepEqual(target.calls, [
+      [0, "mouseDown", { x: 10, y: 20 }],
+      [0.5, "frame", 0.5],
+      [0.5, "mouseDrag", { x: 30, y: 40 }],
+      [0.75, "mouseUp", { x: 35, y: 45 }],
+      [0.75, "gravityMode", "dock", "left"],
+      [1.75, "impulse", { dx: 1, dy: 2 }, 0],
+      [1.75, "frame", 1],
+    ]);
+    assert.ok(replayer.finished);
+    assert.equal(target.mouseScenePosOverride, undefined);
+  });
+
+  it("advances only as far as the playhead", () => {
+    const target = new RecordingTarget();
+    const replayer = new SessionReplayer(target, record());
+
+    assert.equal(replayer.advance(0.6), true);
+    assert.equal(target.calls.length, 3);
+    assert.deepEqual(target.mouseScenePosOverride, { x: 30, y: 40 });
+
+    assert.equal(replayer.advance(0.6), true);
+    assert.equal(target.calls.length, 5);
+
+    assert.equal(replayer.advance(1), false);
+    assert.equal(target.calls.length, 7);
+  });
+});
@@ -0,0 +1,322 @@
+import fs from "node:fs";
+import { Clock, ManualClock } from "./clock.js";
+import { Config } from "./config.js";
+import { DockEdge } from "./dock_geometry.js";
+import { GravityMode, GravitySettings } from "./gravity.js";
+import { MagnifyEvent, RotateEvent, ScrollEvent } from "./gestures.js";
+import { MouseCatcherDelegate } from "./mouse_catcher.js";
+import { PlatformScreen } from "./platform.js";
+
+// Sessions are JSON Lines: a header describing the world when recording
+// started, followed by one entry per input event or frame. Bump the version
+// whenever an existing entry changes shape.
+export const SESSION_VERSION = 3;
+
+export interface BallSnapshot {
+  position: CGPoint;
+  velocity: CGVector;
+  isDynamic: boolean;
+}
+
+export interface SessionSnapshot {
+  screenRects: CGRect[];
+  config: Config;
+  balls: BallSnapshot[];
+  // Where the gravity field was, which may be part way between modes.
+  gravity: GravitySettings;
+}
+
+export interface SessionHeader extends SessionSnapshot {
+  type: "header";
+  version: number;
+  startedAt: string;
+}
+
+// `time` is in seconds since recording started, and `mouse` is the cursor
+// in scene coordinates when the event arrived.
+export type SessionEvent =
+  | { type: "mouseDown"; time: number; mouse: CGPoint }
+  | { type: "mouseDrag"; time: number; mouse: CGPoint }
+  | { type: "mouseUp"; time: number; mouse: CGPoint }
+  | { type: "scroll"; time: number; mouse: CGPoint; scroll: ScrollEvent }
+  | { type: "magnify"; time: number; mouse: CGPoint; magnify: MagnifyEvent }
+  | { type: "rotate"; time: number; mouse: CGPoint; rotate: RotateEvent }
+  // Keyboard control, see keymap.ts.
+  | { type: "nudge"; time: number; mouse: CGPoint; change: CGVector }
+  | { type: "hop"; time: number; mouse: CGPoint; speed: number }
+  // From the control API, see control.ts. `position` is in scene coordinates.
+  | { type: "impulse"; time: number; impulse: CGVector; ball?: number }
+  | { type: "teleport"; time: number; position: CGPoint; ball?: number }
+  | { type: "gravity"; time: number; gravity: CGVector }
+  | { type: "launch"; time: number; rect: CGRect; screenFrame: CGRect }
+  | { type: "dock"; time: number; rect: CGRect }
+  | {
+      type: "gravityMode";
+      time: number;
+      mode: GravityMode;
+      dockEdge?: DockEdge;
+    }
+  // `elapsed` is the (clamped) time the physics was advanced by.
+  | { type: "frame"; time: number; elapsed: number };
+
+export interface Session {
+  header: SessionHeader;
+  events: SessionEvent[];
+}
+
+export class SessionFormatError extends Error {
+  constructor(public line: number, message: string) {
+    super(`Invalid session at line ${line}: ${message}`);
+    this.name = "SessionFormatError";
+  }
+}
+
+const EVENT_TYPES = new Set([
+  "mouseDown",
+  "mouseDrag",
+  "mouseUp",
+  "scroll",
+  "magnify",
+  "rotate",
+  "nudge",
+  "hop",
+  "impulse",
+  "teleport",
+  "gravity",
+  "launch",
+  "dock",
+  "gravityMode",
+  "frame",
+]);
+
+export function parseSession(text: string): Session {
+  const lines = text.split("\n").filter((line) => line.trim() !== "");
+  if (lines.length === 0) {
+    throw new SessionFormatError(1, "missing header");
+  }
+
+  const entries = lines.map((line, i) => {
+    try {
+      return JSON.parse(line);
+    } catch (error) {
+      throw new SessionFormatError(i + 1, (error as Error).message);
+    }
+  });
+
+  const header = entries[0];
+  if (header?.type !== "header") {
+    throw new SessionFormatError(1, "missing header");
+  }
+  if (header.version !== SESSION_VERSION) {
+    throw new SessionFormatError(
+      1,
+      `unsupported version ${header.version}, expected ${SESSION_VERSION}`
+    );
+  }
+
+  const events = entries.slice(1);
+  events.forEach((event, i) => {
+    if (!EVENT_TYPES.has(event?.type) || typeof event.time !== "number") {
+      throw new SessionFormatError(i + 2, "unknown entry");
+    }
+  });
+
+  return { header, events };
+}
+
+export interface SessionArgs {
+  record?: string;
+  replay?: string;
+}
+
+// Understands `--record <path>` and `--replay <path>`.
+export function parseSessionArgs(args: string[]): SessionArgs {
+  const result: SessionArgs = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, value] = args[i].split("=");
+    if (flag !== "--record" && flag !== "--replay") continue;
+
+    const path = value ?? args[++i];
+    if (path) result[flag === "--record" ? "record" : "replay"] = path;
+  }
+
+  return result;
+}
+
+// Writes a session as it happens. `write` receives one line at a time.
+export class SessionRecorder {
+  startTime: number;
+
+  constructor(
+    public write: (line: string) => void,
+    public clock: Clock,
+    snapshot: SessionSnapshot,
+    public onClose: () => void = () => {}
+  ) {
+    this.startTime = clock.now();
+
+    const header: SessionHeader = {
+      type: "header",
+      version: SESSION_VERSION,
+      startedAt: new Date().toISOString(),
+      ...snapshot,
+    };
+    this.write(JSON.stringify(header) + "\n");
+  }
+
+  static toFile(path: string, clock: Clock, snapshot: SessionSnapshot) {
+    const fd = fs.openSync(path, "w");
+    return new SessionRecorder(
+      (line) => fs.writeSync(fd, line),
+      clock,
+      snapshot,
+      () => fs.closeSync(fd)
+    );
+  }
+
+  get time() {
+    return this.clock.now() - this.startTime;
+  }
+
+  record(event: DistributiveOmit<SessionEvent, "time">) {
+    this.write(JSON.stringify({ ...event, time: this.time }) + "\n");
+  }
+
+  close() {
+    this.onClose();
+  }
+}
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+// What a replay drives; `ViewController` in the app.
+export interface ReplayTarget extends MouseCatcherDelegate {
+  clock: Clock;
+  mouseScenePosOverride?: CGPoint;
+  restoreSession(snapshot: SessionSnapshot): void;
+  launch(rect: CGRect, screen: PlatformScreen): void;
+  dock(rect: CGRect, onComplete: () => void): void;
+  setGravityMode(mode: GravityMode, dockEdge?: DockEdge): void;
+  nudge(change: CGVector): void;
+  hop(speed: number): void;
+  applyImpulse(impulse: CGVector, ball?: number): void;
+  teleportInScene(position: CGPoint, ball?: number): void;
+  setGravity(gravity: CGVector): void;
+  runFrame(elapsed: number): void;
+}
+
+// Feeds a recorded session back through a target on a virtual clock, frame
+// by frame, so the simulation sees exactly the inputs and time steps it saw
+// while recording. Spring animations (drag scale, docking) run on their own
+// driver and aren't part of the replay; gravity transitions are, since they
+// are stepped with the physics.
+export class SessionReplayer {
+  clock = new ManualClock(0);
+  index = 0;
+  playhead = 0;
+
+  constructor(public target: ReplayTarget, public session: Session) {
+    target.clock = this.clock;
+    target.restoreSession(session.header);
+  }
+
+  static fromFile(target: ReplayTarget, path: string) {
+    return new SessionReplayer(
+      target,
+      parseSession(fs.readFileSync(path, "utf8"))
+    );
+  }
+
+  get finished() {
+    return this.index >= this.session.events.length;
+  }
+
+  // Applies the next event, returning false once there are none left.
+  step() {
+    const event = this.session.events[this.index];
+    if (!event) return false;
+    this.index++;
+
+    const target = this.target;
+    this.clock.time = event.time;
+    this.playhead = Math.max(this.playhead, event.time);
+
+    if ("mouse" in event) {
+      target.mouseScenePosOverride = { x: event.mouse.x, y: event.mouse.y };
+    }
+
+    switch (event.type) {
+      case "mouseDown":
+        target.onMouseDown();
+        break;
+      case "mouseDrag":
+        target.onMouseDrag();
+        break;
+      case "mouseUp":
+        target.onMouseUp();
+        break;
+      case "scroll":
+        target.onScroll(event.scroll);
+        break;
+      case "magnify":
+        target.onMagnify(event.magnify);
+        break;
+      case "rotate":
+        target.onRotate(event.rotate);
+        break;
+      case "nudge":
+        target.nudge(event.change);
+        break;
+      case "hop":
+        target.hop(event.speed);
+        break;
+      case "impulse":
+        target.applyImpulse(event.impulse, event.ball);
+        break;
+      case "teleport":
+        target.teleportInScene(event.position, event.ball);
+        break;
+      case "gravity":
+        target.setGravity(event.gravity);
+        break;
+      case "launch":
+        target.launch(event.rect, {
+          frame: event.screenFrame,
+          visibleFrame: event.screenFrame,
+        });
+        break;
+      case "dock":
+        target.dock(event.rect, () => {});
+        break;
+      case "gravityMode":
+        target.setGravityMode(event.mode, event.dockEdge);
+        break;
+      case "frame":
+        target.runFrame(event.elapsed);
+        break;
+    }
+
+    if (this.finished) target.mouseScenePosOverride = undefined;
+    return true;
+  }
+
+  // Plays everything up to `seconds` past the current playhead, returning
+  // false once the session has ended.
+  advance(seconds: number) {
+    this.playhead += seconds;
+
+    while (!this.finished) {
+      if (this.session.events[this.index].time > this.playhead) break;
+      this.step();
+    }
+
+    return !this.finished;
+  }
+
+  runToEnd() {
+    while (this.step());
+  }
+}
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FakeSounds } from "./fake_platform.js";
+import { SoundBank, SoundSample } from "./sound_bank.js";
+
+const soft: SoundSample = {
+  path: "soft.wav",
+  minStrength: 0,
+  maxStrength: 0.5,
+};
+const hard: SoundSample = {
+  path: "hard.wav",
+  minStrength: 0.5,
+  maxStrength: 1,
+};
+
+// Impulses 1000–2000 map to strengths 0–1, and the random source sits in the
+// middle so there's no jitter.
+function soundBank(options = {}) {
+  const sounds = new FakeSounds();
+  const bank = new SoundBank(sounds, [soft, hard], {
+    random: () => 0.5,
+    ...options,
+  });
+  return { sounds, bank };
+}
+
+describe("SoundBank", () => {
+  it("picks the sample for the collision's strength", () => {
+    const { bank } = soundBank();
+    assert.equal(bank.choose(1200)?.sample, soft);
+    assert.equal(bank.choose(1800)?.sample, hard);
+    assert.equal(bank.choose(5000)?.sample, hard);
+  });
+
+  it("stays silent up to the minimum impulse", () => {
+    const { sounds, bank } = soundBank();
+    assert.equal(bank.choose(500), undefined);
+    assert.equal(bank.choose(1000), undefined);
+    assert.equal(bank.contact(1000, "floor", 0), undefined);
+    assert.equal(sounds.loaded.length, 0);
+  });
+
+  it("maps strength to volume and rate", () => {
+    const { sounds, bank } = soundBank();
+
+    bank.contact(1500, "floor", 0);
+    bank.contact(2000, "wall", 0);
+    const [half, full] = sounds.loaded;
+    assert.deepEqual(half.plays, [{ volume: 0.25, rate: 1.025 }]);
+    assert.deepEqual(full.plays, [{ volume: 0.5, rate: 0.9 }]);
+  });
+
+  it("keeps the rate jitter within bounds", () => {
+    const low = soundBank({ random: () => 0 }).bank.choose(2000);
+    const high = soundBank({ random: () => 0.999999 }).bank.choose(2000);
+    assert.ok(Math.abs(low!.rate - (0.9 - 0.03)) < 1e-9);
+    assert.ok(Math.abs(high!.rate - (0.9 + 0.03)) < 1e-5);
+  });
+
+  it("steals the quietest voice, unless the new sound is quieter", () => {
+    const { sounds, bank } = soundBank({ maxVoices: 2 });
+
+    bank.contact(1400, "a", 0);
+    bank.contact(1600, "b", 0);
+    assert.equal(bank.contact(1200, "c", 0), undefined);
+
+    assert.ok(bank.contact(1800, "d", 0));
+    const [quietest, louder, loudest] = sounds.loaded;
+    assert.equal(quietest.isPlaying, false);
+    assert.equal(louder.isPlaying, true);
+    assert.equal(loudest.isPlaying, true);
+    assert.equal(bank.voices.length, 2);
+  });
+
+  it("reuses a sound once it has finished", () => {
+    const { sounds, bank } = soundBank();
+
+    bank.contact(1200, "a", 0);
+    sounds.loaded[0].finish();
+    bank.contact(1200, "b", 0);
+    assert.equal(sounds.loaded.length, 1);
+    assert.equal(sounds.loaded[0].plays.length, 2);
+  });
+
+  it("debounces contacts with the same surface", () => {
+    const { bank } = soundBank();
+
+    assert.ok(bank.contact(1500, "floor", 0));
+    assert.equal(bank.contact(1500, "floor", 0.05), undefined);
+    assert.ok(bank.contact(1500, "wall", 0.05));
+    assert.ok(bank.contact(1500, "floor", 0.1));
+  });
+});
@@ -0,0 +1,163 @@
+import { PlatformSound, PlatformSounds } from "./platform.js";
+import { remap } from "./util.js";
+
+export interface SoundSample {
+  path: string;
+  // Normalised collision strengths (0–1) this sample is used for.
+  minStrength: number;
+  maxStrength: number;
+}
+
+export interface SoundBankOptions {
+  // Impulses up to `minImpulse` are silent, `maxImpulse` and above play at
+  // full strength.
+  minImpulse?: number;
+  maxImpulse?: number;
+  maxVolume?: number;
+  maxVoices?: number;
+  // Seconds during which further contacts with the same surface are ignored.
+  debounce?: number;
+  // Playback rates for the softest and hardest hits; harder hits sound lower.
+  softRate?: number;
+  hardRate?: number;
+  // Random variation added to the rate, so repeated hits don't sound canned.
+  rateJitter?: number;
+  random?: () => number;
+}
+
+export interface SoundChoice {
+  sample: SoundSample;
+  volume: number;
+  rate: number;
+}
+
+interface Voice {
+  sample: SoundSample;
+  sound: PlatformSound;
+  volume: number;
+}
+
+// Plays collision sounds through a `PlatformSounds`, picking the sample,
+// volume and playback rate from the collision impulse.
+export class SoundBank {
+  minImpulse: number;
+  maxImpulse: number;
+  maxVolume: number;
+  maxVoices: number;
+  debounce: number;
+  softRate: number;
+  hardRate: number;
+  rateJitter: number;
+  random: () => number;
+
+  // Every sound loaded per sample, playing or not.
+  pools = new Map<SoundSample, PlatformSound[]>();
+  voices: Voice[] = [];
+  lastPlayed = new Map<string, number>();
+  lastSample?: SoundSample;
+
+  constructor(
+    public sounds: PlatformSounds,
+    // Usually a theme's sounds, see theme.ts.
+    public samples: SoundSample[] = [],
+    options: SoundBankOptions = {}
+  ) {
+    this.minImpulse = options.minImpulse ?? 1000;
+    this.maxImpulse = options.maxImpulse ?? 2000;
+    this.maxVolume = options.maxVolume ?? 0.5;
+    this.maxVoices = options.maxVoices ?? 4;
+    this.debounce = options.debounce ?? 0.1;
+    this.softRate = options.softRate ?? 1.15;
+    this.hardRate = options.hardRate ?? 0.9;
+    this.rateJitter = options.rateJitter ?? 0.03;
+    this.random = options.random ?? Math.random;
+  }
+
+  setSamples(samples: SoundSample[]) {
+    for (const voice of this.voices) voice.sound.stop();
+    this.voices = [];
+    this.pools.clear();
+    this.lastSample = undefined;
+    this.samples = samples;
+  }
+
+  // Loads one sound per sample and plays it silently, so the first real
+  // collision doesn't wait on the disk.
+  preload() {
+    for (const sample of this.samples) {
+      const sound = this.soundFor(sample);
+      sound.volume = 0;
+      sound.play();
+    }
+  }
+
+  // What a collision with `impulse` sounds like, or undefined when it's too
+  // soft to hear.
+  choose(impulse: number): SoundChoice | undefined {
+    if (impulse <= this.minImpulse) return;
+
+    const strength = remap(impulse, this.minImpulse, this.maxImpulse, 0, 1);
+    const candidates = this.samples.filter(
+      (sample) =>
+        strength >= sample.minStrength && strength <= sample.maxStrength
+    );
+    if (candidates.length === 0) return;
+
+    // Avoid repeating the previous sample when there's a choice.
+    const fresh = candidates.filter((sample) => sample !== this.lastSample);
+    const pool = fresh.length > 0 ? fresh : candidates;
+    const sample = pool[Math.floor(this.random() * pool.length)];
+
+    const jitter = (this.random() * 2 - 1) * this.rateJitter;
+    return {
+      sample,
+      volume: strength * this.maxVolume,
+      rate: remap(strength, 0, 1, this.softRate, this.hardRate) + jitter,
+    };
+  }
+
+  // Plays the sound for a contact with `surface` (any key identifying the
+  // pair of bodies) at `time` seconds. Returns what was played, if anything.
+  contact(impulse: number, surface: string, time: number) {
+    const last = this.lastPlayed.get(surface);
+    if (last !== undefined && time - last < this.debounce) return;
+
+    const choice = this.choose(impulse);
+    if (!choice) return;
+
+    this.voices = this.voices.filter((voice) => voice.sound.isPlaying);
+    if (this.voices.length >= this.maxVoices) {
+      // Steal the quietest voice, unless this sound is quieter still.
+      const quietest = this.voices.reduce((a, b) =>
+        b.volume < a.volume ? b : a
+      );
+      if (quietest.volume >= choice.volume) return;
+
+      quietest.sound.stop();
+      this.voices = this.voices.filter((voice) => voice !== quietest);
+    }
+
+    const sound = this.soundFor(choice.sample);
+    sound.volume = choice.volume;
+    sound.rate = choice.rate;
+    sound.play();
+
+    this.voices.push({ sample: choice.sample, sound, volume: choice.volume });
+    this.lastPlayed.set(surface, time);
+    this.lastSample = choice.sample;
+    return choice;
+  }
+
+  // A sound for `sample` that isn't playing, loading another if needed.
+  soundFor(sample: SoundSample) {
+    const pool = this.pools.get(sample) ?? [];
+    this.pools.set(sample, pool);
+
+    let sound = pool.find((sound) => !sound.isPlaying);
+    if (!sound) {
+      sound = this.sounds.load(sample.path);
+      pool.push(sound);
+    }
+    return sound;
+  }
+}
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SpringSolver } from "./spring_solver.js";
+
+function assertClose(actual: number, expected: number, tolerance = 1e-12) {
+  assert.ok(
+    Math.abs(actual - expected) < tolerance,
+    `${actual} is not ${expected}`
+  );
+}
+
+// Springs with a one second response released from 1 at rest, so with
+// ω = 2π the displacements have these closed forms at t = 0.25:
+//   underdamped (ζ = 0.5): e^(-πt) (cos(√3πt) + sin(√3πt) / √3)
+//   critical: (1 + ωt) e^(-ωt)
+//   overdamped (ζ = 2): (r₂e^(r₁t) - r₁e^(r₂t)) / (r₂ - r₁), r = -ω(2 ± √3)
+describe("SpringSolver", () => {
+  it("solves an underdamped spring", () => {
+    const solver = new SpringSolver(1, 0.5, 1, 0, 0);
+    assert.equal(solver.regime, "underdamped");
+    assertClose(solver.value(0.25), 0.3526724493181128);
+    // It overshoots.
+    assert.ok(solver.value(0.5) < 0);
+  });
+
+  it("solves a critically damped spring", () => {
+    const solver = new SpringSolver(1, 1, 1, 0, 0);
+    assert.equal(solver.regime, "critical");
+    assertClose(solver.value(0.25), 0.534416051298218);
+    assertClose(solver.velocity(0.25), -2.0516891816480713);
+  });
+
+  it("solves an overdamped spring", () => {
+    const solver = new SpringSolver(1, 2, 1, 0, 0);
+    assert.equal(solver.regime, "overdamped");
+    assertClose(solver.value(0.25), 0.7070172537493267);
+  });
+
+  it("starts from the given value and velocity", () => {
+    for (const dampingRatio of [0.3, 1, 1.5]) {
+      const solver = new SpringSolver(0.5, dampingRatio, 10, 4, -7);
+      assertClose(solver.value(0), 10);
+      assertClose(solver.velocity(0), -7);
+    }
+  });
+
+  it("stays within epsilon of the target once settled", () => {
+    for (const dampingRatio of [0.3, 1, 1.5]) {
+      const solver = new SpringSolver(0.5, dampingRatio, 10, 4, -7);
+      const settled = solver.settleTime(0.01);
+      for (let t = settled; t < settled + 2; t += 0.01) {
+        assert.ok(Math.abs(solver.value(t) - 4) < 0.01);
+      }
+    }
+  });
+
+  it("carries on smoothly when retargeted", () => {
+    const solver = new SpringSolver(1, 0.8, 0, 10, 0);
+    const retargeted = solver.retargeted(0.2, -5);
+    assert.equal(retargeted.target, -5);
+    assertClose(retargeted.value(0), solver.value(0.2));
+    assertClose(retargeted.velocity(0), solver.velocity(0.2));
+  });
+});
@@ -0,0 +1,156 @@
+// Closed-form solution of a damped harmonic oscillator, parameterised like
+// SwiftUI springs: `response` is the undamped period in seconds and
+// `dampingRatio` is 1 for critical damping. Values and velocities can be
+// queried at any time since the spring was started, so no integration error
+// accumulates however the frames are spaced.
+export class SpringSolver {
+  readonly omega: number;
+
+  // Coefficients of the displacement from `target`, which depend on the
+  // damping regime.
+  readonly a: number;
+  readonly b: number;
+  readonly decay: number;
+  readonly frequency: number;
+
+  constructor(
+    public response: number,
+    public dampingRatio: number,
+    public from: number,
+    public target: number,
+    public initialVelocity: number
+  ) {
+    this.omega = (2 * Math.PI) / response;
+
+    const x0 = from - target;
+    const v0 = initialVelocity;
+    const zeta = dampingRatio;
+
+    if (zeta < 1) {
+      this.decay = zeta * this.omega;
+      this.frequency = this.omega * Math.sqrt(1 - zeta * zeta);
+      this.a = x0;
+      this.b = (v0 + this.decay * x0) / this.frequency;
+    } else if (zeta === 1) {
+      this.decay = this.omega;
+      this.frequency = 0;
+      this.a = x0;
+      this.b = v0 + this.omega * x0;
+    } else {
+      // `decay` and `frequency` hold the two (negative) exponents.
+      const root = Math.sqrt(zeta * zeta - 1);
+      this.decay = -this.omega * (zeta - root);
+      this.frequency = -this.omega * (zeta + root);
+      this.b = (v0 - this.decay * x0) / (this.frequency - this.decay);
+      this.a = x0 - this.b;
+    }
+  }
+
+  get regime() {
+    if (this.dampingRatio < 1) return "underdamped";
+    if (this.dampingRatio === 1) return "critical";
+    return "overdamped";
+  }
+
+  displacement(t: number) {
+    const { a, b, decay, frequency } = this;
+
+    switch (this.regime) {
+      case "underdamped":
+        return (
+          Math.exp(-decay * t) *
+          (a * Math.cos(frequency * t) + b * Math.sin(frequency * t))
+        );
+      case "critical":
+        return (a + b * t) * Math.exp(-decay * t);
+      default:
+        return a * Math.exp(decay * t) + b * Math.exp(frequency * t);
+    }
+  }
+
+  value(t: number) {
+    return this.target + this.displacement(t);
+  }
+
+  velocity(t: number) {
+    const { a, b, decay, frequency } = this;
+
+    switch (this.regime) {
+      case "underdamped": {
+        const cos = Math.cos(frequency * t);
+        const sin = Math.sin(frequency * t);
+        return (
+          Math.exp(-decay * t) *
+          ((b * frequency - decay * a) * cos -
+            (a * frequency + decay * b) * sin)
+        );
+      }
+      case "critical":
+        return (b - decay * (a + b * t)) * Math.exp(-decay * t);
+      default:
+        return (
+          a * decay * Math.exp(decay * t) +
+          b * frequency * Math.exp(frequency * t)
+        );
+    }
+  }
+
+  // An upper bound on |displacement| from `t` onwards once past its peak.
+  envelope(t: number) {
+    const { a, b, decay, frequency } = this;
+
+    switch (this.regime) {
+      case "underdamped":
+        return Math.hypot(a, b) * Math.exp(-decay * t);
+      case "critical":
+        return (Math.abs(a) + Math.abs(b) * t) * Math.exp(-decay * t);
+      default:
+        return (
+          Math.abs(a) * Math.exp(decay * t) +
+          Math.abs(b) * Math.exp(frequency * t)
+        );
+    }
+  }
+
+  // Time after which the value stays within `epsilon` of the target.
+  settleTime(epsilon: number) {
+    if (this.envelope(0) < epsilon) return 0;
+
+    if (this.regime === "underdamped") {
+      return Math.log(Math.hypot(this.a, this.b) / epsilon) / this.decay;
+    }
+
+    // The critically damped envelope rises before it decays; search past
+    // its peak, where it is monotonic.
+    let lo = 0;
+    if (this.regime === "critical" && this.b !== 0) {
+      lo = Math.max(0, 1 / this.decay - Math.abs(this.a) / Math.abs(this.b));
+    }
+
+    let hi = Math.max(lo, this.response);
+    while (this.envelope(hi) >= epsilon) hi *= 2;
+
+    for (let i = 0; i < 60; i++) {
+      const mid = (lo + hi) / 2;
+      if (this.envelope(mid) >= epsilon) {
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+
+    return hi;
+  }
+
+  // A solver heading to `target` that starts from this one's value and
+  // velocity at time `t`.
+  retargeted(t: number, target: number) {
+    return new SpringSolver(
+      this.response,
+      this.dampingRatio,
+      this.value(t),
+      target,
+      this.velocity(t)
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import fs from "node:fs";
+import path from "node:path";
+import { defaultConfigDirectory } from "./config.js";
+import { constrainRectToRegions } from "./world_geometry.js";
+
+// What survives a relaunch. Positions are in screen coordinates so they
+// don't depend on where the ball window happens to be.
+export const STATE_VERSION = 1;
+
+export interface BallState {
+  position: CGPoint;
+  velocity: CGVector;
+  radius: number;
+  rotation: number;
+}
+
+export interface AppState {
+  version: number;
+  visible: boolean;
+  theme: string;
+  balls: BallState[];
+}
+
+export class StateError extends Error {
+  constructor(public filePath: string, message: string) {
+    super(`Invalid state file ${filePath}: ${message}`);
+    this.name = "StateError";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isBallState(value: unknown): value is BallState {
+  if (!isObject(value)) return false;
+  const { position, velocity, radius, rotation } = value;
+  return (
+    isObject(position) &&
+    isFiniteNumber(position.x) &&
+    isFiniteNumber(position.y) &&
+    isObject(velocity) &&
+    isFiniteNumber(velocity.dx) &&
+    isFiniteNumber(velocity.dy) &&
+    isFiniteNumber(radius) &&
+    radius > 0 &&
+    isFiniteNumber(rotation)
+  );
+}
+
+export function parseState(filePath: string, input: unknown): AppState {
+  const fail = (message: string): never => {
+    throw new StateError(filePath, message);
+  };
+
+  if (!isObject(input)) return fail("expected an object");
+  if (input.version !== STATE_VERSION) {
+    fail(`unsupported version ${JSON.stringify(input.version)}`);
+  }
+  if (typeof input.visible !== "boolean") fail(`"visible" must be a boolean`);
+  if (typeof input.theme !== "string") fail(`"theme" must be a string`);
+  if (!Array.isArray(input.balls) || !input.balls.every(isBallState)) {
+    fail(`"balls" must be a list of balls`);
+  }
+
+  return input as unknown as AppState;
+}
+
+export function defaultStatePath() {
+  return path.join(defaultConfigDirectory(), "state.json");
+}
+
+export class StateStore {
+  constructor(public filePath = defaultStatePath()) {}
+
+  // Undefined when nothing has been saved yet; throws a StateError when the
+  // file can't be used.
+  load(): AppState | undefined {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const text = fs.readFileSync(this.filePath, "utf8");
+    let input: unknown;
+    try {
+      input = JSON.parse(text);
+    } catch (error) {
+      throw new StateError(this.filePath, (error as Error).message);
+    }
+
+    return parseState(this.filePath, input);
+  }
+
+  // Writes to a temporary file first, so quitting mid-write can't leave a
+  // truncated state behind.
+  save(state: AppState) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const temporary = `${this.filePath}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(state, null, 2) + "\n");
+    fs.renameSync(temporary, this.filePath);
+  }
+}
+
+// Moves a saved ball onto the nearest of `screens`, in case the displays
+// were rearranged or disconnected since it was saved.
+export function constrainBallToScreens(
+  ball: BallState,
+  screens: CGRect[]
+): BallState {
+  const rect = constrainRectToRegions(
+    {
+      origin: {
+        x: ball.position.x - ball.radius,
+        y: ball.position.y - ball.radius,
+      },
+      size: { width: ball.radius * 2, height: ball.radius * 2 },
+    },
+    screens
+  );
+
+  return {
+    ...ball,
+    position: {
+      x: rect.origin.x + ball.radius,
+      y: rect.origin.y + ball.radius,
+    },
+  };
+}
@@ -0,0 +1,196 @@
+import fs from "node:fs";
+import path from "node:path";
+import {
+  ConfigError,
+  defaultConfigDirectory,
+  validateConfig,
+} from "./config.js";
+import { SoundSample } from "./sound_bank.js";
+
+// A theme pack is a directory holding a `theme.json` manifest and the files
+// it names, which are resolved relative to the directory:
+//
+//   {
+//     "name": "Beach Ball",
+//     "textures": { "ball": "Ball.png", "shadow": "Shadow.png" },
+//     "dockTile": { "ball": "Ball.png", "putBack": "PutBack.png" },
+//     "ball": { "radius": 120, "restitution": 0.8 },
+//     "springs": { "squish": { "response": 0.4, "dampingRatio": 0.3 } },
+//     "sounds": [{ "file": "boing.caf", "minStrength": 0, "maxStrength": 1 }]
+//   }
+//
+// `ball` and `springs` take the same keys as the config file and are
+// optional; the user's own config still wins over them.
+export interface Theme {
+  id: string;
+  name: string;
+  directory: string;
+  textures: { ball: string; shadow: string };
+  dockTile: { ball: string; putBack: string };
+  config: { ball?: unknown; springs?: unknown };
+  sounds: SoundSample[];
+}
+
+export class ThemeError extends Error {
+  constructor(public theme: string, message: string) {
+    super(`Invalid theme "${theme}": ${message}`);
+    this.name = "ThemeError";
+  }
+}
+
+const MANIFEST_KEYS = [
+  "name",
+  "textures",
+  "dockTile",
+  "ball",
+  "springs",
+  "sounds",
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Validates a manifest read from `directory`, resolving the files it names.
+export function parseTheme(
+  id: string,
+  directory: string,
+  manifest: unknown
+): Theme {
+  const fail = (message: string): never => {
+    throw new ThemeError(id, message);
+  };
+
+  if (!isObject(manifest)) fail("expected the manifest to be an object");
+  const m = manifest as Record<string, unknown>;
+
+  for (const key of Object.keys(m)) {
+    if (!MANIFEST_KEYS.includes(key)) fail(`unknown key "${key}"`);
+  }
+
+  if (typeof m.name !== "string" || m.name === "") {
+    fail(`"name" must be a non-empty string`);
+  }
+
+  const file = (key: string, value: unknown) => {
+    if (typeof value !== "string" || value === "") {
+      return fail(`"${key}" must be a file name`);
+    }
+
+    const resolved = path.resolve(directory, value);
+    if (!fs.existsSync(resolved)) {
+      fail(`"${key}" names a missing file ${value}`);
+    }
+    return resolved;
+  };
+
+  const files = (key: string, names: string[]) => {
+    const value = m[key];
+    if (!isObject(value)) return fail(`"${key}" must be an object`);
+    return Object.fromEntries(
+      names.map((name) => [name, file(`${key}.${name}`, value[name])])
+    );
+  };
+
+  const textures = files("textures", ["ball", "shadow"]);
+  const dockTile = files("dockTile", ["ball", "putBack"]);
+
+  const config = { ball: m.ball, springs: m.springs };
+  try {
+    validateConfig(config);
+  } catch (error) {
+    if (error instanceof ConfigError) fail(error.message);
+    throw error;
+  }
+
+  if (!Array.isArray(m.sounds) || m.sounds.length === 0) {
+    fail(`"sounds" must be a non-empty array`);
+  }
+
+  const sounds = (m.sounds as unknown[]).map((sound, i) => {
+    const key = `sounds[${i}]`;
+    if (!isObject(sound)) return fail(`"${key}" must be an object`);
+
+    const { minStrength, maxStrength } = sound;
+    if (
+      typeof minStrength !== "number" ||
+      typeof maxStrength !== "number" ||
+      minStrength < 0 ||
+      maxStrength > 1 ||
+      minStrength > maxStrength
+    ) {
+      fail(`"${key}" needs 0 <= minStrength <= maxStrength <= 1`);
+    }
+
+    return {
+      path: file(`${key}.file`, sound.file),
+      minStrength: minStrength as number,
+      maxStrength: maxStrength as number,
+    };
+  });
+
+  return {
+    id,
+    name: m.name as string,
+    directory,
+    textures: { ball: textures.ball, shadow: textures.shadow },
+    dockTile: { ball: dockTile.ball, putBack: dockTile.putBack },
+    config,
+    sounds,
+  };
+}
+
+export function builtInThemesDirectory() {
+  return new URL("../assets/themes", import.meta.url).pathname;
+}
+
+// Finds themes by directory name, looking in the user's themes first so a
+// built-in theme can be overridden.
+export class ThemeLoader {
+  constructor(
+    public directories = [
+      path.join(defaultConfigDirectory(), "themes"),
+      builtInThemesDirectory(),
+    ]
+  ) {}
+
+  list() {
+    const ids = new Set<string>();
+    for (const directory of this.directories) {
+      if (!fs.existsSync(directory)) continue;
+      for (const id of fs.readdirSync(directory)) {
+        if (fs.existsSync(path.join(directory, id, "theme.json"))) ids.add(id);
+      }
+    }
+    return [...ids].sort();
+  }
+
+  load(id: string): Theme {
+    if (!/^[\w.-]+$/.test(id) || id.startsWith(".")) {
+      throw new ThemeError(
+        id,
+        "theme names may only contain letters, digits, '.', '-' and '_'"
+      );
+    }
+
+    for (const directory of this.directories) {
+      const themeDirectory = path.join(directory, id);
+      const manifestPath = path.join(themeDirectory, "theme.json");
+      if (!fs.existsSync(manifestPath)) continue;
+
+      let manifest: unknown;
+      try {
+        manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+      } catch (error) {
+        throw new ThemeError(
+          id,
+          `${manifestPath} is not valid JSON: ${(error as Error).message}`
+        );
+      }
+
+      return parseTheme(id, themeDirectory, manifest);
+    }
+
+    throw new ThemeError(id, `not found in ${this.directories.join(" or ")}`);
+  }
+}
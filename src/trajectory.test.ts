@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PhysicsBody, PhysicsWorld } from "./physics.js";
+import { predictTrajectory, ThrowInput } from "./trajectory.js";
+
+const screen = {
+  origin: { x: 0, y: 0 },
+  size: { width: 1000, height: 800 },
+};
+
+function world(...solids: CGRect[]) {
+  const world = new PhysicsWorld();
+  world.addBody(PhysicsBody.edgeLoopFromRect(screen));
+  for (const rect of solids) {
+    const obstacle = PhysicsBody.edgeLoopFromRect(rect);
+    obstacle.isSolid = true;
+    world.addBody(obstacle);
+  }
+  return world;
+}
+
+// Throws the ball for real, sampling it as `predictTrajectory` does.
+function simulate(world: PhysicsWorld, ball: ThrowInput, steps: number) {
+  const body = PhysicsBody.circle(ball.radius);
+  body.position = { ...ball.position };
+  body.restitution = ball.restitution;
+  body.friction = ball.friction;
+  body.usesPreciseCollisionDetection = true;
+  body.contactTestBitMask = 1;
+  body.applyImpulse(ball.impulse);
+  world.addBody(body);
+
+  const points = [{ ...body.position }];
+  const bounces: CGPoint[] = [];
+  world.contactDelegate = {
+    didBeginContact: (contact) => bounces.push(contact.contactPoint),
+  };
+  for (let i = 1; i <= steps; i++) {
+    world.step();
+    if (i % 4 === 0) points.push({ ...body.position });
+  }
+  return { points, bounces };
+}
+
+function assertClose(actual: CGPoint[], expected: CGPoint[]) {
+  for (const [i, point] of actual.entries()) {
+    const distance = Math.hypot(
+      point.x - expected[i].x,
+      point.y - expected[i].y
+    );
+    assert.ok(distance < 0.01, `point ${i} is ${distance} points off`);
+  }
+}
+
+const ball: ThrowInput = {
+  position: { x: 200, y: 400 },
+  radius: 20,
+  restitution: 0.6,
+  friction: 0.2,
+  impulse: { dx: 3, dy: 1 },
+};
+
+describe("predictTrajectory", () => {
+  it("matches the simulated path through its bounces", () => {
+    const predicted = predictTrajectory(world(), ball, {
+      duration: 3,
+      maxBounces: 2,
+    });
+    const steps = Math.ceil(3 / new PhysicsWorld().timeStep);
+    const actual = simulate(world(), ball, steps);
+
+    assert.equal(predicted.bounces.length, 3);
+    assertClose(predicted.bounces, actual.bounces);
+    // The last point is where the path stopped, between samples.
+    assertClose(predicted.points.slice(0, -1), actual.points);
+  });
+
+  it("lets the ball fall out of a solid obstacle it starts in", () => {
+    const around = {
+      origin: { x: 100, y: 300 },
+      size: { width: 200, height: 200 },
+    };
+    const predicted = predictTrajectory(world(around), ball, {
+      duration: 1,
+      maxBounces: 0,
+    });
+    const actual = simulate(world(around), ball, 120);
+
+    assert.ok(predicted.points[predicted.points.length - 1].y < 300);
+    assertClose(predicted.points.slice(0, -1), actual.points);
+  });
+});
@@ -0,0 +1,100 @@
+import { PhysicsBody, PhysicsWorld } from "./physics.js";
+
+// Where a thrown ball will go, found by running a scratch copy of the world
+// forward. Nothing in the given world changes, so the same inputs always give
+// the same path, and it matches what the real world then simulates.
+
+export interface ThrowInput {
+  position: CGPoint;
+  radius: number;
+  restitution: number;
+  friction: number;
+  linearDamping?: number;
+  // What the throw applies to the ball, as in `PhysicsBody.applyImpulse`.
+  impulse: CGVector;
+  angularVelocity?: number;
+}
+
+export interface TrajectoryOptions {
+  // Seconds to look ahead.
+  duration?: number;
+  // The path ends at the first contact after this many bounces.
+  maxBounces?: number;
+  // Simulation steps between points of the path.
+  stepsPerPoint?: number;
+}
+
+export interface Trajectory {
+  points: CGPoint[];
+  // Where the ball touched something, in order.
+  bounces: CGPoint[];
+}
+
+// Only the world's edges are copied; other balls are left out, since they
+// move by the time the throw reaches them.
+export function predictTrajectory(
+  world: PhysicsWorld,
+  ball: ThrowInput,
+  options: TrajectoryOptions = {}
+): Trajectory {
+  const duration = options.duration ?? 1.5;
+  const maxBounces = options.maxBounces ?? 2;
+  const stepsPerPoint = options.stepsPerPoint ?? 4;
+
+  const scratch = new PhysicsWorld();
+  scratch.gravity = { ...world.gravity };
+  scratch.field = world.field;
+  scratch.timeStep = world.timeStep;
+  scratch.restingVelocity = world.restingVelocity;
+  scratch.contactSlop = world.contactSlop;
+
+  for (const body of world.bodies) {
+    if (body.shape.type !== "edges") continue;
+
+    const copy = new PhysicsBody(body.shape);
+    copy.restitution = body.restitution;
+    copy.friction = body.friction;
+    copy.categoryBitMask = body.categoryBitMask;
+    copy.collisionBitMask = body.collisionBitMask;
+    copy.contactTestBitMask = body.contactTestBitMask;
+    copy.isSolid = body.isSolid;
+    scratch.addBody(copy);
+  }
+
+  const body = PhysicsBody.circle(ball.radius);
+  body.position = { ...ball.position };
+  body.restitution = ball.restitution;
+  body.friction = ball.friction;
+  body.linearDamping = ball.linearDamping ?? 0;
+  body.usesPreciseCollisionDetection = true;
+  body.contactTestBitMask = 1;
+  body.applyImpulse(ball.impulse);
+  body.angularVelocity = ball.angularVelocity ?? 0;
+  scratch.addBody(body);
+
+  const trajectory: Trajectory = {
+    points: [{ ...body.position }],
+    bounces: [],
+  };
+  scratch.contactDelegate = {
+    didBeginContact: (contact) => {
+      trajectory.bounces.push(contact.contactPoint);
+    },
+  };
+
+  const steps = Math.ceil(duration / scratch.timeStep);
+  for (let i = 1; i <= steps; i++) {
+    scratch.step();
+
+    const bounced = trajectory.bounces.length > maxBounces;
+    if (bounced || i % stepsPerPoint === 0 || i === steps) {
+      trajectory.points.push({ ...body.position });
+    }
+    if (bounced) {
+      trajectory.bounces.length = maxBounces + 1;
+      break;
+    }
+  }
+
+  return trajectory;
+}
@@ -0,0 +1,76 @@
+import "@nativescript/macos-node-api";
+import { Trajectory } from "./trajectory.js";
+
+const DOT_RADIUS = 3;
+// Points of path between dots.
+const DOT_SPACING = 24;
+
+// A dotted line along a predicted trajectory, fading out towards its end.
+export class TrajectoryPreview extends SKNode {
+  static {
+    NativeClass(this);
+  }
+
+  dots: SKShapeNode[] = [];
+
+  static create() {
+    const preview = TrajectoryPreview.new();
+    preview.zPosition = -1;
+    return preview;
+  }
+
+  dot(index: number) {
+    let dot = this.dots[index];
+    if (!dot) {
+      dot = SKShapeNode.shapeNodeWithCircleOfRadius(DOT_RADIUS);
+      dot.fillColor = NSColor.whiteColor;
+      dot.strokeColor = NSColor.blackColor.colorWithAlphaComponent(0.3);
+      dot.lineWidth = 1;
+      this.addChild(dot);
+      this.dots.push(dot);
+    }
+    return dot;
+  }
+
+  show(trajectory: Trajectory) {
+    const positions = dotPositions(trajectory.points, DOT_SPACING);
+
+    positions.forEach((position, i) => {
+      const dot = this.dot(i);
+      dot.position = position;
+      dot.alpha = 1 - i / positions.length;
+      dot.isHidden = false;
+    });
+    for (let i = positions.length; i < this.dots.length; i++) {
+      this.dots[i].isHidden = true;
+    }
+  }
+
+  hide() {
+    for (const dot of this.dots) dot.isHidden = true;
+  }
+}
+
+// Evenly spaced points along a polyline, skipping its start, which is under
+// the ball.
+function dotPositions(points: CGPoint[], spacing: number) {
+  const positions: CGPoint[] = [];
+  let untilNext = spacing;
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+
+    let travelled = 0;
+    while (length - travelled >= untilNext) {
+      travelled += untilNext;
+      const t = travelled / length;
+      positions.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+      untilNext = spacing;
+    }
+    untilNext -= length - travelled;
+  }
+
+  return positions;
+}
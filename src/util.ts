@@ -1,76 +1,75 @@
-import "@nativescript/macos-node-api";
+export function rectMinX(r: CGRect) {
+  return Math.min(r.origin.x, r.origin.x + r.size.width);
+}
 
-export const RADIUS = 100;
+export function rectMaxX(r: CGRect) {
+  return Math.max(r.origin.x, r.origin.x + r.size.width);
+}
 
-// From https://gist.github.com/wonderbit/c8896ff429a858021a7623f312dcdbf9
+export function rectMidX(r: CGRect) {
+  return r.origin.x + r.size.width / 2;
+}
 
-export const WBDockPosition = {
-  BOTTOM: 0,
-  LEFT: 1,
-  RIGHT: 2,
-} as const;
+export function rectMinY(r: CGRect) {
+  return Math.min(r.origin.y, r.origin.y + r.size.height);
+}
 
-export function getDockPosition(screen: NSScreen) {
-  if (screen.visibleFrame.origin.y == 0) {
-    if (screen.visibleFrame.origin.x == 0) {
-      return WBDockPosition.RIGHT;
-    } else {
-      return WBDockPosition.LEFT;
-    }
-  } else {
-    return WBDockPosition.BOTTOM;
-  }
+export function rectMaxY(r: CGRect) {
+  return Math.max(r.origin.y, r.origin.y + r.size.height);
 }
 
-export function getDockSize(screen: NSScreen, position: number) {
-  let size;
-  switch (position) {
-    case WBDockPosition.RIGHT:
-      size = screen.frame.size.width - screen.visibleFrame.size.width;
-      return size;
-    case WBDockPosition.LEFT:
-      size = screen.visibleFrame.origin.x;
-      return size;
-    case WBDockPosition.BOTTOM:
-      size = screen.visibleFrame.origin.y;
-      return size;
-    default:
-      throw new Error("unreachable");
-  }
+export function rectMidY(r: CGRect) {
+  return r.origin.y + r.size.height / 2;
 }
 
-export function getInferredRectOfHoveredDockIcon(screen: NSScreen): CGRect {
-  // Keep in mind coords are inverted (y=0 at BOTTOM)
-  const dockPos = getDockPosition(screen);
-  const dockSize = getDockSize(screen, dockPos);
-  const tileSize = dockSize * (64.0 / 79.0);
-  // First, set center to the mouse pos
-  const center = NSEvent.mouseLocation;
-  if (dockPos == WBDockPosition.BOTTOM) {
-    center.y = CGRectGetMinY(screen.frame) + tileSize / 2;
-    // Dock icons are a little above the center of the dock rect
-    center.y += (2.5 / 79) * dockSize;
-  }
-  return {
-    origin: { x: center.x - tileSize / 2, y: center.y - tileSize / 2 },
-    size: { width: tileSize, height: tileSize },
-  };
+export function pointInRect(p: CGPoint, r: CGRect) {
+  return (
+    p.x >= rectMinX(r) &&
+    p.x < rectMaxX(r) &&
+    p.y >= rectMinY(r) &&
+    p.y < rectMaxY(r)
+  );
 }
 
 export function constrainRect(r: CGRect, bounds: CGRect): CGRect {
-  const boundsMinX = CGRectGetMinX(bounds);
-  const boundsMaxX = CGRectGetMaxX(bounds);
-  const boundsMinY = CGRectGetMinY(bounds);
-  const boundsMaxY = CGRectGetMaxY(bounds);
+  const boundsMinX = rectMinX(bounds);
+  const boundsMaxX = rectMaxX(bounds);
+  const boundsMinY = rectMinY(bounds);
+  const boundsMaxY = rectMaxY(bounds);
 
-  if (CGRectGetMinX(r) < boundsMinX) r.origin.x = boundsMinX;
-  if (CGRectGetMaxX(r) > boundsMaxX) r.origin.x = boundsMaxX - r.size.width;
-  if (CGRectGetMinY(r) < boundsMinY) r.origin.y = boundsMinY;
-  if (CGRectGetMaxY(r) > boundsMaxY) r.origin.y = boundsMaxY - r.size.height;
+  if (rectMinX(r) < boundsMinX) r.origin.x = boundsMinX;
+  if (rectMaxX(r) > boundsMaxX) r.origin.x = boundsMaxX - r.size.width;
+  if (rectMinY(r) < boundsMinY) r.origin.y = boundsMinY;
+  if (rectMaxY(r) > boundsMaxY) r.origin.y = boundsMaxY - r.size.height;
 
   return r;
 }
 
+export function launchImpulse(
+  rect: CGRect,
+  screenFrame: CGRect,
+  strength = 2000,
+  edgeThreshold = 200
+): CGVector {
+  const impulse: CGVector = { dx: 0, dy: 0 };
+
+  const distFromLeft = rectMidX(rect) - rectMinX(screenFrame);
+  const distFromRight = rectMaxX(screenFrame) - rectMidX(rect);
+  const distFromBottom = rectMidY(rect) - rectMinY(screenFrame);
+
+  if (distFromBottom < edgeThreshold) {
+    impulse.dy = strength;
+  }
+
+  if (distFromLeft < edgeThreshold) {
+    impulse.dx = strength;
+  } else if (distFromRight < edgeThreshold) {
+    impulse.dx = -strength;
+  }
+
+  return impulse;
+}
+
 export function remap(
   x: number,
   domainStart: number,
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { VelocityTracker } from "./velocity_tracker.js";
+
+function assertClose(actual: number[], expected: number[]) {
+  actual.forEach((value, i) => {
+    assert.ok(Math.abs(value - expected[i]) < 1e-9, `${actual} ≠ ${expected}`);
+  });
+}
+
+// A tracker on a clock that only moves when told to.
+function manualTracker(options = {}) {
+  let now = 0;
+  const tracker = new VelocityTracker(2, { clock: () => now, ...options });
+  const at = (time: number) => (now = time);
+  return { tracker, at };
+}
+
+describe("VelocityTracker", () => {
+  it("recovers a constant velocity", () => {
+    const { tracker, at } = manualTracker();
+    for (let i = 0; i <= 10; i++) {
+      at(i / 120);
+      tracker.add([5 + (300 * i) / 120, -(60 * i) / 120]);
+    }
+    assertClose(tracker.velocity, [300, -60]);
+  });
+
+  it("only fits samples within the window", () => {
+    const { tracker, at } = manualTracker({ window: 0.05 });
+    // A fast start, then a slower, steady drag.
+    tracker.add([0, 0], 0);
+    tracker.add([1000, 0], 0.01);
+    for (let i = 1; i <= 10; i++)
+      tracker.add([1000 + 10 * i, 0], 0.01 * (i + 1));
+    at(0.11);
+    assertClose(tracker.velocity, [1000, 0]);
+  });
+
+  it("is zero with fewer than two samples", () => {
+    const { tracker } = manualTracker();
+    assert.deepEqual(tracker.velocity, [0, 0]);
+    tracker.add([10, 10]);
+    assert.deepEqual(tracker.velocity, [0, 0]);
+  });
+
+  it("keeps the newest value for a repeated timestamp", () => {
+    const { tracker, at } = manualTracker();
+    tracker.add([0, 0], 0);
+    tracker.add([50, 0], 0);
+    tracker.add([50, 0], 0);
+    assert.equal(tracker.samples.length, 1);
+    assert.deepEqual(tracker.velocity, [0, 0]);
+
+    at(0.01);
+    tracker.add([60, 0]);
+    assertClose(tracker.velocity, [1000, 0]);
+  });
+
+  it("never divides by zero on timestamps that go backwards", () => {
+    const { tracker, at } = manualTracker();
+    at(0.02);
+    tracker.add([0, 0], 0.02);
+    tracker.add([10, 10], 0.01);
+    tracker.add([20, 20], 0.02);
+    const velocity = tracker.velocity;
+    assert.ok(velocity.every(Number.isFinite));
+    assert.deepEqual(velocity, [0, 0]);
+  });
+
+  it("clamps the speed without turning it", () => {
+    const { tracker, at } = manualTracker({ maxVelocity: 500 });
+    tracker.add([0, 0], 0);
+    tracker.add([30, 40], 0.01);
+    at(0.01);
+    // 5000 points per second, along (3, 4).
+    assertClose(tracker.velocity, [300, 400]);
+  });
+
+  it("rejects samples with the wrong dimensions", () => {
+    const { tracker } = manualTracker();
+    assert.throws(() => tracker.add([1, 2, 3]), /2-dimensional/);
+  });
+});
@@ -0,0 +1,134 @@
+export interface VelocitySample {
+  time: number;
+  value: number[];
+}
+
+export interface VelocityTrackerOptions {
+  // How far back (in seconds) samples contribute to the estimate.
+  window?: number;
+  // Upper bound on the magnitude of the estimated velocity.
+  maxVelocity?: number;
+  // Returns the current time in seconds.
+  clock?: () => number;
+}
+
+// Estimates the velocity of an N-dimensional value from recent samples using a
+// least-squares fit, so a single noisy sample doesn't dominate a fling.
+export class VelocityTracker {
+  samples: VelocitySample[] = [];
+
+  window: number;
+  maxVelocity: number;
+  clock: () => number;
+
+  constructor(public dimensions: number, options: VelocityTrackerOptions = {}) {
+    this.window = options.window ?? 0.1;
+    this.maxVelocity = options.maxVelocity ?? Infinity;
+    this.clock = options.clock ?? (() => performance.now() / 1000);
+  }
+
+  add(value: number[], time = this.clock()) {
+    if (value.length !== this.dimensions) {
+      throw new Error(
+        `Expected a ${this.dimensions}-dimensional sample, got ${value.length}`
+      );
+    }
+
+    const last = this.samples[this.samples.length - 1];
+    if (last && time <= last.time) {
+      // Events can share a timestamp; the newest value wins.
+      last.value = value.slice();
+    } else {
+      this.samples.push({ time, value: value.slice() });
+    }
+
+    this.trim(time);
+  }
+
+  reset() {
+    this.samples = [];
+  }
+
+  trim(now = this.clock()) {
+    while (
+      this.samples.length > 0 &&
+      now - this.samples[0].time > this.window
+    ) {
+      this.samples.shift();
+    }
+  }
+
+  get velocity(): number[] {
+    this.trim();
+
+    const velocity = new Array<number>(this.dimensions).fill(0);
+    const samples = this.samples;
+    if (samples.length < 2) return velocity;
+
+    let meanTime = 0;
+    for (const sample of samples) meanTime += sample.time;
+    meanTime /= samples.length;
+
+    let timeVariance = 0;
+    for (const sample of samples) timeVariance += (sample.time - meanTime) ** 2;
+    if (timeVariance === 0) return velocity;
+
+    for (let d = 0; d < this.dimensions; d++) {
+      let meanValue = 0;
+      for (const sample of samples) meanValue += sample.value[d];
+      meanValue /= samples.length;
+
+      let covariance = 0;
+      for (const sample of samples) {
+        covariance += (sample.time - meanTime) * (sample.value[d] - meanValue);
+      }
+      velocity[d] = covariance / timeVariance;
+    }
+
+    const speed = Math.hypot(...velocity);
+    if (speed > this.maxVelocity) {
+      const scale = this.maxVelocity / speed;
+      for (let d = 0; d < this.dimensions; d++) velocity[d] *= scale;
+    }
+
+    return velocity;
+  }
+
+  // How fast the direction of a 2D motion is turning, in radians per second
+  // counterclockwise, from the average velocities over the older and newer
+  // halves of the samples. Zero while either is slower than `minSpeed`.
+  turnRate(minSpeed = 50) {
+    this.trim();
+
+    const samples = this.samples;
+    if (this.dimensions !== 2 || samples.length < 3) return 0;
+
+    const first = samples[0];
+    const middle = samples[Math.floor(samples.length / 2)];
+    const last = samples[samples.length - 1];
+
+    const average = (from: VelocitySample, to: VelocitySample) => {
+      const dt = to.time - from.time;
+      return {
+        dx: (to.value[0] - from.value[0]) / dt,
+        dy: (to.value[1] - from.value[1]) / dt,
+        time: (from.time + to.time) / 2,
+      };
+    };
+
+    const older = average(first, middle);
+    const newer = average(middle, last);
+    if (
+      Math.hypot(older.dx, older.dy) < minSpeed ||
+      Math.hypot(newer.dx, newer.dy) < minSpeed
+    ) {
+      return 0;
+    }
+
+    const turn = Math.atan2(
+      older.dx * newer.dy - older.dy * newer.dx,
+      older.dx * newer.dx + older.dy * newer.dy
+    );
+    return turn / (newer.time - older.time);
+  }
+}
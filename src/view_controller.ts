@@ -1,56 +1,90 @@
 import "@nativescript/macos-node-api";
-import { Ball } from "./ball.js";
-import { CGPointGetLength, constrainRect, RADIUS, remap } from "./util.js";
+import { Ball, BallTextures, loadBallTextures } from "./ball.js";
+import { CGPointGetLength, launchImpulse, remap } from "./util.js";
 import { MouseCatcherDelegate } from "./mouse_catcher.js";
+import {
+  GestureRecognizer,
+  GestureTarget,
+  MagnifyEvent,
+  RotateEvent,
+  ScrollEvent,
+} from "./gestures.js";
+import {
+  PhysicsBody,
+  PhysicsContact,
+  PhysicsContactDelegate,
+  PhysicsWorld,
+} from "./physics.js";
+import { BallScene } from "./app_controller.js";
+import { Platform, PlatformScreen } from "./platform.js";
+import { MacOSPlatform } from "./macos_platform.js";
+import { VelocityTracker } from "./velocity_tracker.js";
+import { Clock, systemClock } from "./clock.js";
+import { SoundBank } from "./sound_bank.js";
+import { Theme } from "./theme.js";
+import { Obstacle, ObstacleProvider } from "./obstacles.js";
+import { Config, DEFAULT_CONFIG } from "./config.js";
+import {
+  constrainRectToRegions,
+  floorBelow,
+  outlineOfRects,
+} from "./world_geometry.js";
+import { ReplayTarget, SessionRecorder, SessionSnapshot } from "./session.js";
+import { BallState } from "./state.js";
+import { DebugHud, DebugInfo } from "./debug_hud.js";
+import { circleContainsPoint, convertCircle, HitCircle } from "./hit_test.js";
+import { DiagnosticsLog } from "./diagnostics.js";
+import { CALayerDriver } from "./ca_layer_driver.js";
+import { predictTrajectory } from "./trajectory.js";
+import { TrajectoryPreview } from "./trajectory_preview.js";
+import { Game, GameEvent, GameOutcome, layoutTargets } from "./game.js";
+import { GameOverlay, gameStatusText } from "./game_overlay.js";
+import { GravityField, GravityMode } from "./gravity.js";
+import { ManualDriver } from "./motion.js";
+import { DockGeometry } from "./dock_geometry.js";
+
+const MOMENTUM_PUSH_SCALE = 5;
+// Spin a throw gets per radian per second its path was turning at release,
+// and the most it can get.
+const SPIN_PER_TURN = 1;
+const MAX_THROW_SPIN = 30;
 
-export interface Sample {
-  time: number;
-  pos: CGPoint;
-}
-
-export class VelocityTracker {
-  samples: Sample[] = [];
+export class DragState {
+  velocityTracker: VelocityTracker;
 
-  add(pos: CGPoint) {
-    const time = CACurrentMediaTime();
-    const sample = { time, pos };
-    this.samples.push(sample);
-    this.samples = this.filteredSamples;
+  constructor(
+    public ball: Ball,
+    public ballStart: CGPoint,
+    public mouseStart: CGPoint,
+    public currentMousePos: CGPoint,
+    clock: Clock = systemClock
+  ) {
+    this.velocityTracker = new VelocityTracker(2, {
+      window: 0.1,
+      clock: () => clock.now(),
+    });
   }
 
-  get filteredSamples() {
-    const time = CACurrentMediaTime();
-    const filtered = this.samples.filter((sample) => time - sample.time < 0.1);
-    return filtered;
+  addSample(pos: CGPoint) {
+    this.velocityTracker.add([pos.x, pos.y]);
   }
 
   get velocity(): CGPoint {
-    const samples = this.filteredSamples;
-    if (samples.length < 2) {
-      return CGPointZero;
-    }
-    const first = samples[0];
-    const last = samples[samples.length - 1];
-    const delta = {
-      x: last.pos.x - first.pos.x,
-      y: last.pos.y - first.pos.y,
-    };
-    const time = last.time - first.time;
-    return {
-      x: delta.x / time,
-      y: delta.y / time,
-    };
+    const [x, y] = this.velocityTracker.velocity;
+    return { x, y };
   }
-}
 
-export class DragState {
-  velocityTracker = new VelocityTracker();
+  // What letting go now applies to the ball.
+  get throwImpulse(): CGVector {
+    const { x, y } = this.velocity;
+    return { dx: x, dy: y };
+  }
 
-  constructor(
-    public ballStart: CGPoint,
-    public mouseStart: CGPoint,
-    public currentMousePos: CGPoint
-  ) {}
+  // Angular velocity for a throw, from how the drag path curves at release.
+  get spin() {
+    const spin = this.velocityTracker.turnRate() * SPIN_PER_TURN;
+    return Math.min(Math.max(spin, -MAX_THROW_SPIN), MAX_THROW_SPIN);
+  }
 
   get currentBallPos() {
     const delta = {
@@ -66,42 +100,156 @@ export class DragState {
 
 export class ViewController
   extends NSViewController
-  implements SKSceneDelegate, MouseCatcherDelegate, SKPhysicsContactDelegate
+  implements
+    SKSceneDelegate,
+    MouseCatcherDelegate,
+    PhysicsContactDelegate,
+    BallScene,
+    ReplayTarget,
+    GestureTarget
 {
-  static ObjCProtocols = [SKSceneDelegate, SKPhysicsContactDelegate];
+  static ObjCProtocols = [SKSceneDelegate];
 
   static {
     NativeClass(this);
   }
 
+  platform: Platform = MacOSPlatform.instance;
+  clock: Clock = systemClock;
+
+  _config = DEFAULT_CONFIG;
+
+  get config() {
+    return this._config;
+  }
+
+  set config(value) {
+    const previous = this._config;
+    this._config = value;
+
+    for (const ball of this.balls) ball.applyConfig(value, previous);
+    this.layoutGame();
+
+    this.soundBank.minImpulse = value.contact.minImpulse;
+    this.soundBank.maxImpulse = value.contact.maxImpulse;
+  }
+
   scene = SKScene.sceneWithSize({ width: 200, height: 200 });
   sceneView = SKView.new();
 
+  get paused() {
+    return this.sceneView.isPaused;
+  }
+
+  set paused(value) {
+    this.sceneView.isPaused = value;
+  }
+
+  world = new PhysicsWorld();
+  edges: PhysicsBody[] = [];
+  outline: CGPoint[][] = [];
+  lastUpdateTime?: number;
+  // Seconds since the previous frame, for animations stepped per frame.
+  frameElapsed = 0;
+  elapsedSinceLastUpdate = 0;
+
   physicsQueue: CallableFunction[] = [];
 
-  _ball?: Ball;
+  balls: Ball[] = [];
+
+  recorder?: SessionRecorder;
+
+  gestures = new GestureRecognizer(this);
+  // The ball the current (or last) trackpad gesture acts on.
+  gestureBall?: Ball;
+
+  // Set while a SessionReplayer drives frames instead of the display.
+  replaying = false;
 
-  get ball() {
-    return this._ball;
+  // Where the cursor is during a replay.
+  mouseScenePosOverride?: CGPoint;
+
+  diagnostics?: DiagnosticsLog;
+  hud?: DebugHud;
+  // Smoothed frames per second, for the HUD.
+  fps = 0;
+  lastContact?: PhysicsContact & { time: number };
+  clickWindowRect?: CGRect;
+
+  addBall(ball: Ball) {
+    this.balls.push(ball);
+    this.scene.addChild(ball);
+    this.world.addBody(ball.body);
   }
 
-  set ball(value) {
-    this.ball?.destroy();
+  removeBall(ball: Ball) {
+    if (this.dragState?.ball === ball) this.dragState = undefined;
+    this.balls = this.balls.filter((b) => b !== ball);
+    this.game?.removeBall(ball.body.id);
+    ball.destroy();
 
-    this._ball = value;
+    if (this.dockingBalls.delete(ball) && this.dockingBalls.size === 0) {
+      this.finishDocking();
+    }
+  }
 
-    if (value) this.scene.addChild(value);
+  get ballCount() {
+    return this.balls.length;
   }
 
-  tempMouseCatcherRect?: CGRect;
+  ballForBody(body: PhysicsBody) {
+    return this.balls.find((ball) => ball.body === body);
+  }
 
-  get mouseCatcherRect(): CGRect | undefined {
-    const rect = this.tempMouseCatcherRect ?? this.ball?.rect;
-    const window = this.view.window;
+  // Balls added later are drawn on top, so the last hit is the topmost one.
+  ballAt(point: CGPoint) {
+    for (let i = this.balls.length - 1; i >= 0; i--) {
+      if (circleContainsPoint(this.balls[i].hitCircle, point)) {
+        return this.balls[i];
+      }
+    }
+  }
 
-    if (rect && window) {
-      return window.convertRectToScreen(rect);
+  nearestBall(point: CGPoint) {
+    let nearest: Ball | undefined;
+    let nearestDistance = Infinity;
+    for (const ball of this.balls) {
+      const distance = CGPointGetLength({
+        x: ball.position.x - point.x,
+        y: ball.position.y - point.y,
+      });
+      if (distance < nearestDistance) {
+        nearest = ball;
+        nearestDistance = distance;
+      }
     }
+    return nearest;
+  }
+
+  // There is a single click window, so it follows whichever ball the cursor
+  // is over (or closest to) unless one is already being dragged.
+  get mouseCatcherBall() {
+    if (this.dragState) return this.dragState.ball;
+    if (!this.view.window && !this.mouseScenePosOverride) return;
+
+    const pos = this.mouseScenePos;
+    return this.ballAt(pos) ?? this.nearestBall(pos);
+  }
+
+  // Fixed in screen coordinates for a scroll drag, which moves the ball
+  // without moving the pointer.
+  tempMouseCatcherCircle?: HitCircle;
+
+  // Where the click window goes, in screen coordinates.
+  get mouseCatcherCircle(): HitCircle | undefined {
+    if (this.tempMouseCatcherCircle) return this.tempMouseCatcherCircle;
+
+    const ball = this.mouseCatcherBall;
+    if (!ball || !this.view.window) return;
+
+    return convertCircle(ball.hitCircle, (point) =>
+      this.screenPointFromScene(point)
+    );
   }
 
   _dragState?: DragState;
@@ -111,40 +259,188 @@ export class ViewController
   }
 
   set dragState(value) {
+    const previous = this._dragState;
     this._dragState = value;
 
-    if (value && this.ball) {
-      this.ball.physicsBody.isDynamic = false;
+    if (previous && previous.ball !== value?.ball) {
+      previous.ball.body.isDynamic = true;
+      previous.ball.animateDrag(false);
+
+      this.diagnostics?.log({
+        type: "dragEnd",
+        ball: previous.ball.body.id,
+        position: previous.ball.position,
+        velocity: previous.velocity,
+      });
+    }
+
+    if (value && value.ball !== previous?.ball) {
+      this.diagnostics?.log({
+        type: "dragStart",
+        ball: value.ball.body.id,
+        position: value.ball.position,
+      });
+    }
+
+    if (value) {
+      const ball = value.ball;
+      ball.body.isDynamic = false;
+      ball.body.velocity = { dx: 0, dy: 0 };
+      ball.body.angularVelocity = 0;
 
       const pos = value.currentBallPos;
 
-      const constrainedRect = constrainRect(
+      const constrainedRect = constrainRectToRegions(
         {
-          origin: { x: pos.x - this.ball.radius, y: pos.y - this.ball.radius },
-          size: { width: this.ball.radius * 2, height: this.ball.radius * 2 },
+          origin: { x: pos.x - ball.radius, y: pos.y - ball.radius },
+          size: { width: ball.radius * 2, height: ball.radius * 2 },
         },
-        this.view.bounds
+        this.screenRects
       );
 
-      this.ball.position = {
+      ball.position = {
         x: CGRectGetMidX(constrainedRect),
         y: CGRectGetMidY(constrainedRect),
       };
-    } else if (this.ball) {
-      this.ball.physicsBody.isDynamic = true;
+
+      ball.animateDrag(true);
+    }
+  }
+
+  _screenRects: CGRect[] = [];
+
+  get screenRects() {
+    return this._screenRects;
+  }
+
+  set screenRects(value) {
+    this._screenRects = value;
+
+    for (const edge of this.edges) this.world.removeBody(edge);
+
+    this.outline = outlineOfRects(value);
+    this.edges = this.outline.map((points) => {
+      const edge = PhysicsBody.edgeLoop(points);
+      edge.contactTestBitMask = 1;
+      this.world.addBody(edge);
+      return edge;
+    });
+
+    // Obstacles are in screen coordinates, so they move with the window.
+    this.rebuildObstacles();
+    this.layoutGame();
+  }
+
+  // Conversions between the scene and the screen, by way of the scene view
+  // and the window, so they hold however the scene is laid out.
+  scenePointFromScreen(point: CGPoint): CGPoint {
+    const window = this.view.window;
+    if (!window) return point;
+
+    const windowPoint = window.convertPointFromScreen(point);
+    return this.scene.convertPointFromView(
+      this.sceneView.convertPointFromView(windowPoint, null)
+    );
+  }
+
+  screenPointFromScene(point: CGPoint): CGPoint {
+    const window = this.view.window;
+    if (!window) return point;
+
+    const windowPoint = this.sceneView.convertPointToView(
+      this.scene.convertPointToView(point),
+      null
+    );
+    return window.convertPointToScreen(windowPoint);
+  }
+
+  // Converts a rect in screen coordinates (like a dock icon's) to the scene.
+  sceneRectFromScreen(rect: CGRect): CGRect {
+    const a = this.scenePointFromScreen(rect.origin);
+    const b = this.scenePointFromScreen({
+      x: rect.origin.x + rect.size.width,
+      y: rect.origin.y + rect.size.height,
+    });
+    return {
+      origin: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+      size: { width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) },
+    };
+  }
+
+  obstacleProviders = new Map<ObstacleProvider, () => void>();
+  obstacleBodies: PhysicsBody[] = [];
+
+  addObstacleProvider(provider: ObstacleProvider) {
+    if (this.obstacleProviders.has(provider)) return;
+
+    const unsubscribe = provider.onChange(() => this.rebuildObstacles());
+    this.obstacleProviders.set(provider, unsubscribe);
+    provider.start();
+    this.rebuildObstacles();
+  }
+
+  removeObstacleProvider(provider: ObstacleProvider) {
+    const unsubscribe = this.obstacleProviders.get(provider);
+    if (!unsubscribe) return;
+
+    unsubscribe();
+    provider.stop();
+    this.obstacleProviders.delete(provider);
+    this.rebuildObstacles();
+  }
+
+  rebuildObstacles() {
+    for (const body of this.obstacleBodies) this.world.removeBody(body);
+
+    this.obstacleBodies = [...this.obstacleProviders.keys()].flatMap(
+      (provider) =>
+        provider.obstacles.map((obstacle) => {
+          const body = this.obstacleBody(obstacle);
+          body.isSolid = true;
+          body.contactTestBitMask = 1;
+          this.world.addBody(body);
+          return body;
+        })
+    );
+  }
+
+  obstacleBody(obstacle: Obstacle) {
+    if (obstacle.type === "rect") {
+      return PhysicsBody.edgeLoopFromRect(
+        this.sceneRectFromScreen(obstacle.rect)
+      );
     }
 
-    this.ball?.animateDrag(!!value);
+    const points = obstacle.points.map((point) =>
+      this.scenePointFromScreen(point)
+    );
+    return obstacle.closed
+      ? PhysicsBody.edgeLoop(points)
+      : PhysicsBody.edgeChain(points);
   }
 
   ballPositionChanged?: () => void;
 
-  sounds = ["pop_01", "pop_02", "pop_03"].map((id) =>
-    NSSound.alloc().initWithContentsOfFileByReference(
-      new URL(`../assets/${id}.caf`, import.meta.url).pathname,
-      true
-    )
-  );
+  soundBank = new SoundBank(this.platform.sounds);
+
+  _theme?: Theme;
+  textures?: BallTextures;
+
+  get theme() {
+    return this._theme;
+  }
+
+  set theme(value) {
+    this._theme = value;
+    if (!value) return;
+
+    const textures = loadBallTextures(value);
+    this.textures = textures;
+    for (const ball of this.balls) ball.setTextures(textures);
+
+    this.soundBank.setSamples(value.sounds);
+    if (this.isViewLoaded) this.soundBank.preload();
+  }
 
   viewDidLoad() {
     super.viewDidLoad();
@@ -153,101 +449,136 @@ export class ViewController
     this.sceneView.presentScene(this.scene);
     this.scene.backgroundColor = NSColor.clearColor;
     this.scene.delegate = this;
-    this.scene.physicsWorld.contactDelegate = this;
+    this.world.contactDelegate = this;
+    this.world.field = (body) => this.gravityField.acceleration(body);
     this.sceneView.allowsTransparency = true;
 
     this.sceneView.preferredFramesPerSecond = 120;
 
-    for (const sound of this.sounds) {
-      sound.volume = 0;
-      sound.play();
-    }
+    this.soundBank.preload();
   }
 
   viewDidLayout() {
     super.viewDidLayout();
     this.scene.size = this.view.bounds.size;
     this.sceneView.frame = this.view.bounds;
-    this.scene.physicsBody = SKPhysicsBody.bodyWithEdgeLoopFromRect(
-      this.view.bounds
-    );
-    this.scene.physicsBody.contactTestBitMask = 1;
   }
 
-  launch(rect: CGRect) {
-    const screen = this.view.window?.screen;
-    if (!screen) return;
-
-    const ball = Ball.create(RADIUS, {
-      x: CGRectGetMidX(rect),
-      y: CGRectGetMidY(rect),
+  launch(screenRect: CGRect, screen: PlatformScreen) {
+    this.recorder?.record({
+      type: "launch",
+      rect: screenRect,
+      screenFrame: screen.frame,
+    });
+    this.diagnostics?.log({
+      type: "lifecycle",
+      event: "ballLaunched",
+      detail: { rect: screenRect },
     });
 
-    this.ball = ball;
-
-    const strength = 2000;
-    const impulse: CGVector = { dx: 0, dy: 0 };
-
-    const distFromLeft = CGRectGetMidX(rect) - CGRectGetMinX(screen.frame);
-    const distFromRight = CGRectGetMaxX(screen.frame) - CGRectGetMidX(rect);
-    const distFromBottom = CGRectGetMidY(rect) - CGRectGetMinY(screen.frame);
+    const rect = this.sceneRectFromScreen(screenRect);
+    const ball = Ball.create(
+      this.config,
+      { x: CGRectGetMidX(rect), y: CGRectGetMidY(rect) },
+      this.textures
+    );
 
-    if (distFromBottom < 200) {
-      impulse.dy = strength;
-    }
+    this.addBall(ball);
 
-    if (distFromLeft < 200) {
-      impulse.dx = strength;
-    } else if (distFromRight < 200) {
-      impulse.dx = -strength;
-    }
+    const impulse = launchImpulse(
+      screenRect,
+      screen.frame,
+      this.config.launch.impulse,
+      this.config.launch.edgeThreshold
+    );
 
-    ball.setScale(rect.size.width / (ball.radius * 2));
-    const scaleUp = SKAction.scaleToDuration(1, 0.5);
-    ball.runAction(scaleUp);
+    const iconScale = rect.size.width / (ball.radius * 2);
+    ball.setScale(iconScale);
+    ball.scaleSpring.value = iconScale;
+    ball.scaleSpring.start(1, 0);
 
     ball.animateShadow(true, 0.5);
 
     this.physicsQueue.push(() => {
-      ball.physicsBody.applyImpulse(impulse);
+      ball.body.applyImpulse(impulse);
     });
   }
 
-  dock(rect: CGRect, onComplete: () => void) {
-    const ball = this.ball;
+  // Balls on their way into the dock, and who to tell once they're all in.
+  // Docking again before that adds to the callbacks rather than replacing
+  // them.
+  dockingBalls = new Set<Ball>();
+  dockCallbacks: (() => void)[] = [];
 
-    if (!ball) {
-      return onComplete();
-    }
+  finishDocking() {
+    const callbacks = this.dockCallbacks;
+    this.dockCallbacks = [];
+    for (const callback of callbacks) callback();
+  }
+
+  dock(screenRect: CGRect, onComplete: () => void) {
+    this.recorder?.record({ type: "dock", rect: screenRect });
+    this.diagnostics?.log({
+      type: "lifecycle",
+      event: "ballDocking",
+      detail: { rect: screenRect },
+    });
+
+    const rect = this.sceneRectFromScreen(screenRect);
+    const balls = this.balls;
 
-    if (ball.physicsBody) {
-      ball.physicsBody.isDynamic = false;
-      ball.physicsBody.affectedByGravity = false;
-      ball.physicsBody.velocity = { dx: 0, dy: 0 };
+    this.dockCallbacks.push(onComplete);
+    if (balls.length === 0) {
+      return this.finishDocking();
     }
 
-    ball.runAction(
-      SKAction.scaleToDuration(rect.size.width / (ball.radius * 2), 0.25)
-    );
+    for (const ball of balls) {
+      this.dockingBalls.add(ball);
 
-    ball.animateShadow(false, 0.25);
+      // Spring into the dock from wherever the ball was heading, whether it
+      // was flying, being thrown or already on its way to the dock.
+      let velocity = [ball.body.velocity.dx, ball.body.velocity.dy];
+      if (ball.positionSpring.animating) {
+        velocity = ball.positionSpring.velocity;
+      } else if (this.dragState?.ball === ball) {
+        velocity = [this.dragState.velocity.x, this.dragState.velocity.y];
+      }
 
-    ball.runActionCompletion(
-      SKAction.moveToDuration(
-        {
-          x: CGRectGetMidX(rect),
-          y: CGRectGetMidY(rect),
-        },
-        0.25
-      ),
-      () => {
-        this.ball = undefined;
-        onComplete();
+      if (this.dragState?.ball === ball) this.dragState = undefined;
+
+      ball.body.isDynamic = false;
+      ball.body.affectedByGravity = false;
+      ball.body.velocity = { dx: 0, dy: 0 };
+
+      ball.scaleSpring.start(
+        rect.size.width / (ball.radius * 2),
+        ball.scaleSpring.velocity
+      );
+
+      ball.animateShadow(false, 0.25);
+
+      ball.positionSpring.onComplete = () => {
+        this.diagnostics?.log({
+          type: "lifecycle",
+          event: "ballDocked",
+          detail: { ball: ball.body.id },
+        });
+        this.removeBall(ball);
+      };
+      if (!ball.positionSpring.animating) {
+        ball.positionSpring.value = [ball.position.x, ball.position.y];
       }
-    );
+      ball.positionSpring.start(
+        [CGRectGetMidX(rect), CGRectGetMidY(rect)],
+        velocity
+      );
+    }
   }
 
   get mouseScenePos() {
+    const override = this.mouseScenePosOverride;
+    if (override) return { x: override.x, y: override.y };
+
     const viewPos = this.sceneView.convertPointFromView(
       this.view.window.mouseLocationOutsideOfEventStream,
       null
@@ -258,91 +589,582 @@ export class ViewController
 
   onMouseDown() {
     const scenePos = this.mouseScenePos;
-    if (this.ball && this.ball.containsPoint(scenePos)) {
-      this.dragState = new DragState(this.ball.position, scenePos, scenePos);
+    this.recorder?.record({ type: "mouseDown", mouse: scenePos });
+
+    const ball = this.ballAt(scenePos);
+    if (ball) {
+      this.dragState = new DragState(
+        ball,
+        ball.position,
+        scenePos,
+        scenePos,
+        this.clock
+      );
     } else {
       this.dragState = undefined;
     }
   }
 
   onMouseDrag() {
+    this.recorder?.record({ type: "mouseDrag", mouse: this.mouseScenePos });
     if (this.dragState) {
       this.dragState.currentMousePos = this.mouseScenePos;
-      this.dragState.velocityTracker.add(this.dragState.currentMousePos);
+      this.dragState.addSample(this.dragState.currentMousePos);
       this.dragState = this.dragState;
     }
   }
 
   onMouseUp() {
-    const velocity = this.dragState?.velocityTracker.velocity ?? CGPointZero;
+    this.recorder?.record({ type: "mouseUp", mouse: this.mouseScenePos });
+    this.throwBall(this.dragState);
+  }
+
+  onScroll(event: ScrollEvent) {
+    this.recorder?.record({
+      type: "scroll",
+      mouse: this.mouseScenePos,
+      scroll: event,
+    });
+
+    this.gestures.scroll(event);
+  }
+
+  onMagnify(event: MagnifyEvent) {
+    this.recorder?.record({
+      type: "magnify",
+      mouse: this.mouseScenePos,
+      magnify: event,
+    });
+
+    this.gestures.magnify(event);
+  }
+
+  onRotate(event: RotateEvent) {
+    this.recorder?.record({
+      type: "rotate",
+      mouse: this.mouseScenePos,
+      rotate: event,
+    });
+
+    this.gestures.rotate(event);
+  }
+
+  beginScrollDrag() {
+    const ball = this.mouseCatcherBall;
+    this.gestureBall = ball;
+    if (ball) {
+      this.dragState = new DragState(
+        ball,
+        ball.position,
+        CGPointZero,
+        CGPointZero,
+        this.clock
+      );
+      this.tempMouseCatcherCircle = this.mouseCatcherCircle;
+    }
+  }
+
+  scrollDragBy(dx: number, dy: number) {
+    if (this.dragState) {
+      this.dragState.currentMousePos.x += dx;
+      this.dragState.currentMousePos.y -= dy;
+      this.dragState.addSample(this.dragState.currentMousePos);
+      this.dragState = this.dragState;
+    }
+  }
+
+  endScrollDrag() {
+    this.throwBall(this.dragState);
+    this.tempMouseCatcherCircle = undefined;
+  }
+
+  // Ends `dragState`, letting go of its ball with the drag's velocity and
+  // spin.
+  throwBall(dragState?: DragState) {
+    const velocity = dragState?.velocity ?? CGPointZero;
+    const spin = dragState?.spin ?? 0;
     this.dragState = undefined;
 
-    if (CGPointGetLength(velocity) > 0) {
-      this.ball?.physicsBody?.applyImpulse({ dx: velocity.x, dy: velocity.y });
+    if (!dragState || CGPointGetLength(velocity) === 0) return;
+
+    const { ball } = dragState;
+    ball.body.applyImpulse(dragState.throwImpulse);
+    ball.body.angularVelocity = spin;
+    this.feedGame({
+      type: "throw",
+      ball: ball.body.id,
+      time: this.clock.now(),
+      position: ball.position,
+    });
+  }
+
+  // Momentum and mouse wheel deltas are distances, so they're scaled up to
+  // make a push comparable to a fling.
+  push(dx: number, dy: number) {
+    const ball = this.gestureBall ?? this.mouseCatcherBall;
+    if (!ball || !ball.body.isDynamic) return;
+
+    ball.body.applyImpulse({
+      dx: dx * MOMENTUM_PUSH_SCALE,
+      dy: -dy * MOMENTUM_PUSH_SCALE,
+    });
+  }
+
+  beginPinch() {
+    this.gestureBall = this.mouseCatcherBall;
+    return this.gestureBall?.radius;
+  }
+
+  resize(radius: number) {
+    this.gestureBall?.setRadius(radius);
+    this.ballPositionChanged?.();
+  }
+
+  spin(radians: number) {
+    this.gestureBall?.spin(radians);
+  }
+
+  snapshotSession(): SessionSnapshot {
+    return {
+      screenRects: this.screenRects,
+      config: this.config,
+      gravity: this.gravityField.settings,
+      balls: this.balls.map((ball) => ({
+        position: { x: ball.position.x, y: ball.position.y },
+        velocity: { dx: ball.body.velocity.dx, dy: ball.body.velocity.dy },
+        isDynamic: ball.body.isDynamic,
+      })),
+    };
+  }
+
+  restoreSession(snapshot: SessionSnapshot) {
+    this.dragState = undefined;
+    for (const ball of [...this.balls]) this.removeBall(ball);
+    this.physicsQueue = [];
+
+    this.screenRects = snapshot.screenRects;
+    this.config = snapshot.config;
+    this.gravityField.setMode(snapshot.config.gravity.mode, undefined, false);
+    this.gravityField.settings = snapshot.gravity;
+
+    for (const { position, velocity, isDynamic } of snapshot.balls) {
+      const ball = Ball.create(this.config, position, this.textures);
+      ball.body.velocity = { dx: velocity.dx, dy: velocity.dy };
+      ball.body.isDynamic = isDynamic;
+      ball.animateShadow(true, 0);
+      this.addBall(ball);
     }
   }
 
-  onScroll(event: NSEvent) {
-    switch (event.phase) {
-      case NSEventPhase.Began:
-        if (this.ball) {
-          this.dragState = new DragState(
-            this.ball.position,
-            CGPointZero,
-            CGPointZero
-          );
-          this.tempMouseCatcherRect = this.mouseCatcherRect;
-        }
-        break;
-      case NSEventPhase.Changed:
-        if (this.dragState) {
-          this.dragState.currentMousePos.x += event.scrollingDeltaX;
-          this.dragState.currentMousePos.y -= event.scrollingDeltaY;
-          this.dragState.velocityTracker.add({
-            x: this.dragState.currentMousePos.x,
-            y: this.dragState.currentMousePos.y,
-          });
-          this.dragState = this.dragState;
-        }
-        break;
-      case NSEventPhase.Ended:
-      case NSEventPhase.Cancelled: {
-        const velocity =
-          this.dragState?.velocityTracker.velocity ?? CGPointZero;
-        this.dragState = undefined;
-
-        if (CGPointGetLength(velocity) > 0) {
-          this.ball?.physicsBody?.applyImpulse({
-            dx: velocity.x,
-            dy: velocity.y,
-          });
-        }
-
-        this.tempMouseCatcherRect = undefined;
-        break;
+  // The balls as saved across launches, in screen coordinates.
+  ballStates(): BallState[] {
+    return this.balls.map((ball) => ({
+      position: this.screenPointFromScene(ball.position),
+      velocity: { dx: ball.body.velocity.dx, dy: ball.body.velocity.dy },
+      radius: ball.radius,
+      rotation: ball.rotation,
+    }));
+  }
+
+  restoreBalls(states: BallState[]) {
+    for (const state of states) {
+      const ball = Ball.create(
+        this.config,
+        this.scenePointFromScreen(state.position),
+        this.textures
+      );
+      ball.setRadius(state.radius);
+      ball.rotation = state.rotation;
+      ball.body.velocity = { dx: state.velocity.dx, dy: state.velocity.dy };
+      ball.animateShadow(true, 0);
+      this.addBall(ball);
+    }
+  }
+
+  // The ball scripts act on (see control.ts), by launch order. Defaults to
+  // the most recently launched one.
+  controlledBall(index?: number): Ball | undefined {
+    return this.balls[index ?? this.balls.length - 1];
+  }
+
+  applyImpulse(impulse: CGVector, index?: number) {
+    this.recorder?.record({ type: "impulse", impulse, ball: index });
+
+    const ball = this.controlledBall(index);
+    if (!ball) return;
+
+    this.physicsQueue.push(() => {
+      ball.body.applyImpulse(impulse);
+    });
+  }
+
+  // Changes a ball's velocity by `change`, whatever its size. Keyboard
+  // control acts on the ball under (or nearest) the pointer.
+  nudge(change: CGVector) {
+    this.recorder?.record({
+      type: "nudge",
+      mouse: this.mouseScenePos,
+      change,
+    });
+
+    this.changeVelocity(this.mouseCatcherBall, change);
+  }
+
+  // Bounces the ball upwards, but only off something it's touching.
+  hop(speed: number) {
+    this.recorder?.record({ type: "hop", mouse: this.mouseScenePos, speed });
+
+    const ball = this.mouseCatcherBall;
+    if (ball && this.isTouching(ball)) {
+      this.changeVelocity(ball, { dx: 0, dy: speed });
+    }
+  }
+
+  changeVelocity(ball: Ball | undefined, change: CGVector) {
+    if (!ball || !ball.body.isDynamic) return;
+
+    this.physicsQueue.push(() => {
+      const { mass } = ball.body;
+      ball.body.applyImpulse({ dx: change.dx * mass, dy: change.dy * mass });
+    });
+  }
+
+  isTouching(ball: Ball) {
+    for (const contact of this.world.contacts.values()) {
+      if (contact.bodyA === ball.body || contact.bodyB === ball.body) {
+        return true;
       }
-      default:
-        break;
     }
+    return false;
   }
 
-  updateForScene(_currentTime: number, _scene: SKScene): void {
+  // Moves a ball to `point` in screen coordinates and stops it there.
+  teleport(point: CGPoint, index?: number) {
+    this.teleportInScene(this.scenePointFromScreen(point), index);
+  }
+
+  // Recorded in scene coordinates, so a replay doesn't depend on where the
+  // window is.
+  teleportInScene(position: CGPoint, index?: number) {
+    this.recorder?.record({ type: "teleport", position, ball: index });
+
+    const ball = this.controlledBall(index);
+    // Balls on their way into the dock are left to get there.
+    if (!ball || ball.positionSpring.animating) return;
+
+    if (this.dragState?.ball === ball) this.dragState = undefined;
+
+    this.physicsQueue.push(() => {
+      ball.position = position;
+      ball.body.position = position;
+      ball.body.velocity = { dx: 0, dy: 0 };
+      ball.body.isDynamic = true;
+    });
+  }
+
+  // Runs one frame's worth of simulation outside the display's update loop.
+  runFrame(elapsed: number) {
     this.ballPositionChanged?.();
+    this.elapsedSinceLastUpdate = elapsed;
+    this.stepPhysics();
+    this.flushPhysicsQueue();
   }
 
-  didSimulatePhysicsForScene(_scene: SKScene): void {
+  stepPhysics() {
+    this.recorder?.record({
+      type: "frame",
+      elapsed: this.elapsedSinceLastUpdate,
+    });
+
+    // Non-dynamic bodies follow their node (drags, SKActions), dynamic ones
+    // are moved by the simulation.
+    for (const ball of this.balls) {
+      if (!ball.body.isDynamic) ball.body.position = ball.position;
+    }
+
+    this.gravityDriver.advance(this.elapsedSinceLastUpdate * 1000);
+    this.applyGravityField();
+    this.world.simulate(this.elapsedSinceLastUpdate);
+    this.elapsedSinceLastUpdate = 0;
+
+    for (const ball of this.balls) {
+      if (ball.body.isDynamic) ball.position = ball.body.position;
+    }
+  }
+
+  // Transitions between modes are stepped with the physics rather than by
+  // the display, so a replay goes through them exactly as recorded.
+  gravityDriver = new ManualDriver();
+  gravityField = new GravityField({
+    driver: this.gravityDriver.driver,
+    clock: this.gravityDriver.clock,
+  });
+
+  // Overrides the mode's gravity until the next mode change.
+  setGravity(gravity: CGVector) {
+    this.recorder?.record({ type: "gravity", gravity });
+    this.gravityField.gravity.value = [gravity.dx, gravity.dy];
+  }
+
+  // Also called when the screens change, since the Dock may have moved.
+  setGravityMode(mode: GravityMode, dockEdge = this.dockEdge()) {
+    const field = this.gravityField;
+    const edgeChanged =
+      mode === "dock" && (dockEdge ?? "bottom") !== field.dockEdge;
+    if (mode === field.mode && !edgeChanged) return;
+    this.recorder?.record({ type: "gravityMode", mode, dockEdge });
+    // With no balls out there's no transition to see.
+    this.gravityField.setMode(mode, dockEdge, this.balls.length > 0);
+  }
+
+  // The edge of the main display the Dock is on.
+  dockEdge() {
+    const screen = this.platform.screens.main;
+    if (!screen) return;
+    return new DockGeometry(screen, this.platform.dock.preferences).edge;
+  }
+
+  // Brings the world up to date with the field, which may be between modes.
+  applyGravityField() {
+    const field = this.gravityField;
+    this.world.gravity = field.currentGravity;
+
+    const hasCursor = this.view.window || this.mouseScenePosOverride;
+    field.cursor =
+      field.pull.value !== 0 && hasCursor ? this.mouseScenePos : undefined;
+
+    for (const ball of this.balls) {
+      ball.body.linearDamping = field.damping.value;
+    }
+  }
+
+  flushPhysicsQueue() {
     const queue = this.physicsQueue;
     this.physicsQueue = [];
     for (const cb of queue) cb();
   }
 
+  updateForScene(currentTime: number, _scene: SKScene): void {
+    const elapsed =
+      this.lastUpdateTime === undefined ? 0 : currentTime - this.lastUpdateTime;
+    this.lastUpdateTime = currentTime;
+    this.frameElapsed = Math.min(Math.max(elapsed, 0), 1 / 15);
+    if (elapsed > 0) this.fps += (1 / elapsed - this.fps) * 0.1;
+    if (this.replaying) return;
+
+    this.ballPositionChanged?.();
+    this.elapsedSinceLastUpdate = Math.min(Math.max(elapsed, 0), 1 / 15);
+  }
+
+  didEvaluateActionsForScene(_scene: SKScene): void {
+    if (!this.replaying) this.stepPhysics();
+  }
+
+  didSimulatePhysicsForScene(_scene: SKScene): void {
+    if (!this.replaying) this.flushPhysicsQueue();
+  }
+
   didFinishUpdateForScene(_scene: SKScene): void {
-    this.ball?.update();
+    for (const ball of this.balls) {
+      ball.update(
+        floorBelow(ball.position, this.outline) ?? 0,
+        this.frameElapsed
+      );
+    }
+
+    this.updateHud();
+    this.updateTrajectoryPreview();
+    this.updateGame();
+  }
+
+  game?: Game;
+  gameOverlay?: GameOverlay;
+  // Where the last round placed in the high scores, -1 for nowhere.
+  gameRank?: number;
+  // Called with the score of each finished round. Returns its rank, as
+  // `HighScoreStore.record` does.
+  gameRoundOver?: (score: number) => number;
+
+  get gameMode() {
+    return this.game !== undefined;
   }
 
-  didBeginContact(contact: SKPhysicsContact) {
-    const minImpulse = 1000;
-    const maxImpulse = 2000;
+  set gameMode(value) {
+    if (value === this.gameMode) return;
+
+    if (value) {
+      this.game = new Game([]);
+      this.gameOverlay = GameOverlay.create();
+      this.scene.addChild(this.gameOverlay);
+      this.layoutGame();
+    } else {
+      this.gameOverlay?.removeFromParent();
+      this.gameOverlay = undefined;
+      this.game = undefined;
+      this.gameRank = undefined;
+    }
+  }
+
+  // Puts the targets on the first screen, sized for the configured ball.
+  layoutGame() {
+    const game = this.game;
+    const screen = this.screenRects[0];
+    if (!game || !screen) return;
+
+    game.duration = this.config.game.duration;
+    game.targets = layoutTargets(screen, this.config.ball.radius);
+    this.gameOverlay?.setTargets(game.targets);
+  }
+
+  feedGame(event: GameEvent) {
+    if (this.game) this.showGameOutcomes(this.game.handle(event));
+  }
+
+  showGameOutcomes(outcomes: GameOutcome[]) {
+    for (const outcome of outcomes) {
+      if (outcome.type === "score") {
+        const ball = this.balls.find((b) => b.body.id === outcome.ball);
+        if (ball) this.gameOverlay?.showPoints(outcome.points, ball.position);
+      } else {
+        this.gameRank = this.gameRoundOver?.(outcome.score);
+      }
+    }
+  }
+
+  updateGame() {
+    const { game, gameOverlay } = this;
+    if (!game || !gameOverlay) return;
+
+    const time = this.clock.now();
+    // Dragged and docking balls aren't in play.
+    for (const ball of this.balls) {
+      if (!ball.body.isDynamic) continue;
+      this.feedGame({
+        type: "position",
+        ball: ball.body.id,
+        time,
+        position: ball.position,
+        touching: this.isTouching(ball),
+      });
+    }
+    this.showGameOutcomes(game.tick(time));
+
+    // Top centre of the first screen, clear of the menu bar.
+    const screen = this.screenRects[0] ?? {
+      origin: CGPointZero,
+      size: this.scene.size,
+    };
+    gameOverlay.update(gameStatusText(game, time, this.gameRank), {
+      x: screen.origin.x + screen.size.width / 2,
+      y: screen.origin.y + screen.size.height - 40,
+    });
+  }
+
+  trajectoryPreview?: TrajectoryPreview;
+
+  updateTrajectoryPreview() {
+    const dragState = this.dragState;
+    const { preview, duration, bounces } = this.config.trajectory;
+    if (!preview || !dragState) {
+      this.trajectoryPreview?.hide();
+      return;
+    }
+
+    if (!this.trajectoryPreview) {
+      this.trajectoryPreview = TrajectoryPreview.create();
+      this.scene.addChild(this.trajectoryPreview);
+    }
+
+    const { ball } = dragState;
+    const trajectory = predictTrajectory(
+      this.world,
+      {
+        position: ball.position,
+        radius: ball.radius,
+        restitution: ball.body.restitution,
+        friction: ball.body.friction,
+        linearDamping: ball.body.linearDamping,
+        impulse: dragState.throwImpulse,
+        angularVelocity: dragState.spin,
+      },
+      { duration, maxBounces: Math.floor(bounces) }
+    );
+    this.trajectoryPreview.show(trajectory);
+  }
+
+  get debugHud() {
+    return this.hud !== undefined;
+  }
+
+  set debugHud(value) {
+    if (value === this.debugHud) return;
+
+    if (value) {
+      this.hud = DebugHud.create();
+      this.scene.addChild(this.hud);
+      this.updateHud();
+    } else {
+      this.hud?.removeFromParent();
+      this.hud = undefined;
+    }
+  }
+
+  debugInfo(): DebugInfo {
+    const ball = this.mouseCatcherBall ?? this.balls[this.balls.length - 1];
+    const contact = this.lastContact;
+
+    return {
+      fps: this.fps,
+      displayLinkRate: CALayerDriver.rate,
+      ball: ball && {
+        position: ball.position,
+        velocity: ball.body.velocity,
+        angularVelocity: ball.body.angularVelocity,
+        squish: ball.deformation.scale.along,
+        dragScale: ball.dragScale.value,
+      },
+      lastContact: contact && {
+        point: contact.contactPoint,
+        normal: contact.contactNormal,
+        impulse: contact.collisionImpulse,
+        age: this.clock.now() - contact.time,
+      },
+      clickWindowRect:
+        this.clickWindowRect && this.sceneRectFromScreen(this.clickWindowRect),
+    };
+  }
+
+  updateHud() {
+    const hud = this.hud;
+    if (!hud) return;
+
+    // Top left of the first screen, clear of the menu bar.
+    const screen = this.screenRects[0] ?? {
+      origin: CGPointZero,
+      size: this.scene.size,
+    };
+    hud.update(this.debugInfo(), {
+      x: screen.origin.x + 16,
+      y: screen.origin.y + screen.size.height - 40,
+    });
+  }
+
+  didBeginContact(contact: PhysicsContact) {
+    this.lastContact = { ...contact, time: this.clock.now() };
+    this.diagnostics?.log({
+      type: "contact",
+      bodies: [contact.bodyA.id, contact.bodyB.id],
+      impulse: contact.collisionImpulse,
+      normal: contact.contactNormal,
+      point: contact.contactPoint,
+    });
+
+    for (const body of [contact.bodyA, contact.bodyB]) {
+      if (!this.ballForBody(body)) continue;
+      this.feedGame({ type: "contact", ball: body.id, time: this.clock.now() });
+    }
+
+    const { minImpulse, maxImpulse } = this.config.contact;
 
     const collisionStrength = remap(
       contact.collisionImpulse,
@@ -354,16 +1176,17 @@ export class ViewController
 
     if (collisionStrength <= 0) return;
 
-    this.ball?.didCollide(collisionStrength, contact.contactNormal);
+    for (const body of [contact.bodyA, contact.bodyB]) {
+      this.ballForBody(body)?.didCollide(
+        collisionStrength,
+        contact.contactPoint
+      );
+    }
 
+    const surface = `${contact.bodyA.id}:${contact.bodyB.id}`;
+    const time = this.clock.now();
     NSOperationQueue.mainQueue.addOperationWithBlock(() => {
-      const sounds = this.sounds;
-      const soundsUsable = sounds.filter((sound) => !sound.isPlaying);
-      if (soundsUsable.length === 0) return;
-      const randomSound =
-        soundsUsable[Math.floor(Math.random() * soundsUsable.length)];
-      randomSound.volume = collisionStrength;
-      randomSound.play();
+      this.soundBank.contact(contact.collisionImpulse, surface, time);
     });
   }
 }
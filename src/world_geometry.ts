@@ -0,0 +1,165 @@
+import {
+  constrainRect,
+  rectMaxX,
+  rectMaxY,
+  rectMinX,
+  rectMinY,
+} from "./util.js";
+
+// Geometry of the world spanned by several (possibly misaligned) screens.
+
+export function unionRect(rects: CGRect[]): CGRect {
+  if (rects.length === 0) {
+    return { origin: { x: 0, y: 0 }, size: { width: 0, height: 0 } };
+  }
+
+  const minX = Math.min(...rects.map(rectMinX));
+  const minY = Math.min(...rects.map(rectMinY));
+  const maxX = Math.max(...rects.map(rectMaxX));
+  const maxY = Math.max(...rects.map(rectMaxY));
+
+  return {
+    origin: { x: minX, y: minY },
+    size: { width: maxX - minX, height: maxY - minY },
+  };
+}
+
+export function offsetRect(rect: CGRect, dx: number, dy: number): CGRect {
+  return {
+    origin: { x: rect.origin.x + dx, y: rect.origin.y + dy },
+    size: { width: rect.size.width, height: rect.size.height },
+  };
+}
+
+function pointKey(p: CGPoint) {
+  return `${p.x},${p.y}`;
+}
+
+// Traces the boundary of the union of `rects` as closed loops, running
+// counter-clockwise around covered areas, so the walls follow every outer
+// edge including the steps and gaps between screens of different sizes.
+export function outlineOfRects(rects: CGRect[]): CGPoint[][] {
+  const xs = [
+    ...new Set(rects.flatMap((r) => [rectMinX(r), rectMaxX(r)])),
+  ].sort((a, b) => a - b);
+  const ys = [
+    ...new Set(rects.flatMap((r) => [rectMinY(r), rectMaxY(r)])),
+  ].sort((a, b) => a - b);
+
+  const covered = (i: number, j: number) => {
+    if (i < 0 || j < 0 || i >= xs.length - 1 || j >= ys.length - 1) {
+      return false;
+    }
+    const x = (xs[i] + xs[i + 1]) / 2;
+    const y = (ys[j] + ys[j + 1]) / 2;
+    return rects.some(
+      (r) =>
+        x > rectMinX(r) && x < rectMaxX(r) && y > rectMinY(r) && y < rectMaxY(r)
+    );
+  };
+
+  const edges = new Map<string, CGPoint[]>();
+  const addEdge = (from: CGPoint, to: CGPoint) => {
+    const key = pointKey(from);
+    const list = edges.get(key) ?? [];
+    list.push(to);
+    edges.set(key, list);
+  };
+
+  for (let i = 0; i < xs.length - 1; i++) {
+    for (let j = 0; j < ys.length - 1; j++) {
+      if (!covered(i, j)) continue;
+
+      const bottomLeft = { x: xs[i], y: ys[j] };
+      const bottomRight = { x: xs[i + 1], y: ys[j] };
+      const topRight = { x: xs[i + 1], y: ys[j + 1] };
+      const topLeft = { x: xs[i], y: ys[j + 1] };
+
+      if (!covered(i, j - 1)) addEdge(bottomLeft, bottomRight);
+      if (!covered(i + 1, j)) addEdge(bottomRight, topRight);
+      if (!covered(i, j + 1)) addEdge(topRight, topLeft);
+      if (!covered(i - 1, j)) addEdge(topLeft, bottomLeft);
+    }
+  }
+
+  const loops: CGPoint[][] = [];
+
+  for (const [startKey, targets] of edges) {
+    while (targets.length > 0) {
+      const [startX, startY] = startKey.split(",").map(Number);
+      const loop: CGPoint[] = [{ x: startX, y: startY }];
+
+      let next = targets.pop()!;
+      while (pointKey(next) !== startKey) {
+        loop.push(next);
+        const outgoing = edges.get(pointKey(next));
+        if (!outgoing || outgoing.length === 0) break;
+        next = outgoing.pop()!;
+      }
+
+      loops.push(removeCollinearPoints(loop));
+    }
+  }
+
+  return loops;
+}
+
+function removeCollinearPoints(loop: CGPoint[]) {
+  return loop.filter((point, i) => {
+    const prev = loop[(i + loop.length - 1) % loop.length];
+    const next = loop[(i + 1) % loop.length];
+    const cross =
+      (point.x - prev.x) * (next.y - point.y) -
+      (point.y - prev.y) * (next.x - point.x);
+    return cross !== 0;
+  });
+}
+
+// The height of the nearest floor (an edge with the world above it) under
+// `point`, or undefined when it isn't above any.
+export function floorBelow(point: CGPoint, loops: CGPoint[][]) {
+  let floor: number | undefined;
+
+  for (const loop of loops) {
+    for (let i = 0; i < loop.length; i++) {
+      const a = loop[i];
+      const b = loop[(i + 1) % loop.length];
+
+      // Counter-clockwise loops run left to right along their floors.
+      if (a.y !== b.y || a.x >= b.x) continue;
+      if (point.x < a.x || point.x > b.x || a.y > point.y) continue;
+
+      if (floor === undefined || a.y > floor) floor = a.y;
+    }
+  }
+
+  return floor;
+}
+
+// Moves `rect` the shortest distance needed to fit it entirely on one of
+// `regions`.
+export function constrainRectToRegions(rect: CGRect, regions: CGRect[]) {
+  let best: CGRect | undefined;
+  let bestDistance = Infinity;
+
+  for (const region of regions) {
+    const candidate = constrainRect(
+      {
+        origin: { x: rect.origin.x, y: rect.origin.y },
+        size: { width: rect.size.width, height: rect.size.height },
+      },
+      region
+    );
+    const distance = Math.hypot(
+      candidate.origin.x - rect.origin.x,
+      candidate.origin.y - rect.origin.y
+    );
+
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best ?? rect;
+}